@@ -1,5 +1,5 @@
 import '@logseq/libs'
-import { IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BlockEntity, BlockUUIDTuple, IBatchBlock } from '@logseq/libs/dist/LSPlugin'
 
 interface InsertOptions {
   sibling?: boolean
@@ -25,3 +25,38 @@ export async function insertBlockTree(
 
   return inserted
 }
+
+/** Child lists come back as full entities from `getPageBlocksTree` but as `['uuid', ...]` tuples from `getBlock` */
+export function childUUIDs(children: Array<BlockEntity | BlockUUIDTuple> | undefined): string[] {
+  return (children || []).map(child => Array.isArray(child) ? child[1] : child.uuid)
+}
+
+/** Whether any block in the graph references `uuid` or one of its direct children, e.g. through `((uuid))` or an embed */
+export async function hasInboundReferences(uuid: string): Promise<boolean> {
+  const block = await logseq.Editor.getBlock(uuid)
+  const uuids = [uuid, ...childUUIDs(block?.children)]
+
+  for (const target of uuids) {
+    const refs = await logseq.DB.datascriptQuery(`
+    [
+        :find ?b
+        :where
+          [?t :block/uuid #uuid "${target}"]
+          [?b :block/refs ?t]
+    ]
+    `)
+    if (refs && refs.length > 0) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/** Moves a block with its children to the end of a page; moving keeps its UUID, so references to it stay intact */
+export async function moveBlockToPage(uuid: string, pageUUID: string): Promise<void> {
+  // moveBlock needs a target block, and the page may have none yet
+  const anchor = await logseq.Editor.appendBlockInPage(pageUUID, '')
+  await logseq.Editor.moveBlock(uuid, anchor!.uuid, { before: true })
+  await logseq.Editor.removeBlock(anchor!.uuid)
+}
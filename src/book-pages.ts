@@ -1,44 +1,113 @@
 import '@logseq/libs'
-import { BlockEntity, IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BlockEntity, IBatchBlock, PageEntity } from '@logseq/libs/dist/LSPlugin'
 import { BookSettings } from './settings'
-import { insertBlockTree } from './block-tree'
-import { generatePageName, normalizeAuthors, sanitizePageName, truncateString } from './utils'
+import { KOReaderMetadata, annotation_stats, book_properties, book_series, series_properties } from './metadata'
+import { parseHeading } from './format'
+import { generatePageName, propertyKey, propertyText, sanitizePageName, stripProperties } from './utils'
 
-export async function getOrCreateBookPage(metadata: any, settings: BookSettings): Promise<BlockEntity> {
+export interface BookPage {
+  page: PageEntity
+  /** Whether the page was created by this call rather than found */
+  created: boolean
+}
+
+/**
+ * @param source path of the book's metadata file, stored as `koreader-source` so commands can
+ *   find the file a page was synced from
+ */
+export async function getOrCreateBookPage(metadata: KOReaderMetadata, settings: BookSettings, source?: string): Promise<BookPage> {
   const rawPageName = generatePageName(metadata, settings)
   const pageName = sanitizePageName(rawPageName)
 
-  let existingPage = await logseq.Editor.getPage(pageName)
+  // a book without a series in KOReader may have one from Calibre, which is not to be removed
+  const series = Object.entries(series_properties(metadata)).filter(([, value]) => value !== undefined)
+  const properties = {
+    ...book_properties(metadata, settings),
+    ...(settings.seriesAndCollectionPages ? Object.fromEntries(series) : {}),
+    ...(source ? { 'koreader-source': source } : {}),
+  }
+
+  const existingPage = await logseq.Editor.getPage(pageName)
 
   if (!existingPage) {
     const page = await logseq.Editor.createPage(
       pageName,
-      {
-        'authors': normalizeAuthors(metadata.doc_props.authors),
-        'description': truncateString(metadata.doc_props.description, settings.maxDescriptionLength),
-        'language': metadata.doc_props.language,
-      },
-      { format: "markdown" }
+      properties,
+      // creating a page must not navigate away from what the user is looking at
+      { format: settings.format, redirect: false }
     )
-    existingPage = page
+    return { page: page!, created: true }
+  }
+
+  await refreshBookPageProperties(existingPage.uuid, properties)
+  return { page: existingPage, created: false }
+}
+
+/**
+ * Writes the synced properties onto an existing page, leaving any other page properties alone.
+ * A synced property without a value, such as a status cleared in KOReader, is removed from the page.
+ */
+export async function refreshBookPageProperties(pageUUID: string, properties: object): Promise<void> {
+  const isEmpty = (value: unknown) => value === undefined || value === null || value === ''
+  const synced = Object.entries(properties).filter(([, value]) => !isEmpty(value))
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(pageUUID)
+  const propertiesBlock = (pageBlocks || []).find(block => block['preBlock?'])
+
+  if (!propertiesBlock) {
+    await logseq.Editor.prependBlockInPage(pageUUID, '', { properties: Object.fromEntries(synced) })
+    return
+  }
+
+  for (const [key, value] of synced) {
+    const current: unknown = propertiesBlock.properties?.[propertyKey(key)]
+    if (current === undefined || propertyText(current) !== propertyText(value)) {
+      await logseq.Editor.upsertBlockProperty(propertiesBlock.uuid, key, value)
+    }
+  }
+
+  for (const [key, value] of Object.entries(properties)) {
+    if (isEmpty(value) && propertiesBlock.properties?.[propertyKey(key)] !== undefined) {
+      await logseq.Editor.removeBlockProperty(propertiesBlock.uuid, key)
+    }
   }
+}
+
+/**
+ * Whether a block is the heading annotations are synced under. It is marked with `koreader-section`
+ * so it is still found after the section heading template changes; blocks synced before that are
+ * recognised by the old fixed heading.
+ */
+export function isBookmarksSection(block: unknown): boolean {
+  const candidate = block as BlockEntity | undefined
+  return candidate?.properties?.koreaderSection === "bookmarks" || candidate?.content === "### Bookmarks"
+}
 
-  return existingPage
+/** Whether a block is the section annotations removed in KOReader are archived under. */
+export function isArchivedSection(block: unknown): boolean {
+  const candidate = block as BlockEntity | undefined
+  const heading = candidate?.content ? parseHeading(candidate.content, candidate.properties) : null
+  return heading?.level === 3 && heading.text === "Archived"
 }
 
-export async function createBookmarksSection(pageUUID: string): Promise<string> {
+/**
+ * Finds the bookmarks section of a page, bringing its heading up to date, or creates it.
+ * @param section the section block as `bookmarks_section_block` renders it
+ */
+export async function createBookmarksSection(pageUUID: string, section: IBatchBlock): Promise<string> {
   const pageBlocks = await logseq.Editor.getPageBlocksTree(pageUUID)
 
-  for (const block of pageBlocks || []) {
-    if (block.content === "### Bookmarks") {
-      return block.uuid
+  const existing = (pageBlocks || []).find(isBookmarksSection)
+  if (existing) {
+    if (stripProperties(existing.content) !== section.content || !existing.properties?.koreaderSection) {
+      await logseq.Editor.updateBlock(existing.uuid, section.content, { properties: section.properties })
     }
+    return existing.uuid
   }
 
   const bookmarksBlock = await logseq.Editor.insertBlock(
     pageUUID,
-    "### Bookmarks",
-    { sibling: false }
+    section.content,
+    { sibling: false, properties: section.properties }
   )
 
   return bookmarksBlock!.uuid
@@ -47,51 +116,61 @@ export async function createBookmarksSection(pageUUID: string): Promise<string>
 export interface BookInfo {
   title: string
   authors?: string
+  status?: string
+  rating?: number
+  progress?: string
+  /** KOReader's partial MD5 of the book file */
+  md5?: string
+  /** KOReader's `identifiers`, one `scheme:value` per line, as read from the book file */
+  identifiers?: string
+  series?: string
+  seriesIndex?: number
+  /** Where the book file was on the device, as recorded in its sidecar */
+  docPath?: string
+  highlights?: number
+  notes?: number
+  /** Day of the latest new or edited annotation, as `yyyy-MM-dd` */
+  lastAnnotated?: string
+  /** Day the book was marked finished, as `yyyy-MM-dd` */
+  finished?: string
   pageName: string
   pageUUID: string
   syncedAt: Date
 }
 
-export async function updateIndexPage(books: BookInfo[], settings: BookSettings): Promise<void> {
-  const indexPageName = settings.indexPageName
-
-  let indexPage = await logseq.Editor.getPage(indexPageName)
-  if (!indexPage) {
-    indexPage = await logseq.Editor.createPage(
-      indexPageName,
-      {
-        'type': 'koreader-index',
-      },
-      { format: ":markdown" }
-    )
-  }
+/** Describes a book synced onto `page`, for the index page and the sync state. */
+export function bookInfo(metadata: KOReaderMetadata, page: BlockEntity | PageEntity, settings: BookSettings): BookInfo {
+  const properties = book_properties(metadata, settings)
 
-  const indexBlocks: IBatchBlock[] = [
-    {
-      content: `# KOReader Books Index`,
-      children: [
-        {
-          content: `Last synced: ${(new Date()).toLocaleString()}`,
-        },
-        {
-          content: `## All Books (${books.length})`,
-          children: books.map(book => ({
-            content: `[[${book.pageName}]]`,
-            properties: {
-              'authors': book.authors,
-            },
-          })),
-        },
-      ],
-    },
-  ]
-
-  const pageBlocks = await logseq.Editor.getPageBlocksTree(indexPage.uuid)
-  for (const block of pageBlocks || []) {
-    await logseq.Editor.removeBlock(block.uuid)
+  return {
+    title: metadata.doc_props.title || "Untitled Book",
+    authors: properties.authors,
+    status: properties.status,
+    rating: properties.rating,
+    progress: properties.progress,
+    md5: metadata.partial_md5_checksum,
+    identifiers: metadata.doc_props.identifiers,
+    ...book_series(metadata),
+    docPath: metadata.doc_path,
+    ...annotation_stats(metadata),
+    finished: properties.status === "complete" ? metadata.summary?.modified : undefined,
+    pageName: page.originalName as string,
+    pageUUID: page.uuid,
+    syncedAt: new Date(),
   }
+}
 
-  for (const block of indexBlocks) {
-    await insertBlockTree(indexPage.uuid, block, { sibling: false })
+/** Books in a series, by series name, each in reading order. */
+export function groupBySeries(books: BookInfo[]): Array<[string, BookInfo[]]> {
+  const series: Record<string, BookInfo[]> = {}
+  for (const book of books) {
+    if (book.series) {
+      series[book.series] = [...series[book.series] ?? [], book]
+    }
   }
+
+  return Object.entries(series)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, seriesBooks]) => [name, [...seriesBooks].sort((a, b) =>
+      (a.seriesIndex ?? Infinity) - (b.seriesIndex ?? Infinity) || a.title.localeCompare(b.title))])
 }
@@ -0,0 +1,184 @@
+import '@logseq/libs'
+import { BookInfo, refreshBookPageProperties } from './book-pages'
+import { MetadataFile } from './filesystem'
+import { CalibreSyncState } from './sync-state'
+import { hashString, sanitizePageName } from './utils'
+
+/** What Calibre records about a book in its `metadata.opf` */
+export interface CalibreBook {
+  /** Directory of the OPF file, relative to the selected directory, e.g. `Author/Title (42)/` */
+  directory: string
+  series?: string
+  seriesIndex?: number
+  publisher?: string
+  /** `yyyy-MM-dd` */
+  published?: string
+  isbn?: string
+  tags: string[]
+  calibreId?: string
+  uuid?: string
+}
+
+/** The file Calibre keeps its metadata in, beside each book */
+export const CALIBRE_METADATA_FILE = "metadata.opf"
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeXml(text: string): string {
+  return text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|(\w+));/gi, (entity, hex: string, decimal: string, name: string) => {
+    if (hex) return String.fromCodePoint(parseInt(hex, 16))
+    if (decimal) return String.fromCodePoint(parseInt(decimal, 10))
+    return XML_ENTITIES[name] ?? entity
+  })
+}
+
+/** The attributes and text of every `<tag>` element, ignoring namespace prefixes. */
+function elements(xml: string, tag: string): Array<{ attributes: Record<string, string>, text: string }> {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${tag}>)`, 'g')
+  return [...xml.matchAll(pattern)].map(([, attributeText, text]) => {
+    const attributes: Record<string, string> = {}
+    for (const [, name, value] of attributeText.matchAll(/(?:\w+:)?([\w-]+)\s*=\s*["']([^"']*)["']/g)) {
+      attributes[name.toLowerCase()] = decodeXml(value)
+    }
+    return { attributes, text: decodeXml(text ?? '').trim() }
+  })
+}
+
+function isbnDigits(isbn: string | undefined): string | undefined {
+  const digits = isbn?.replace(/^urn:isbn:/i, '').replace(/[^\dX]/gi, '').toUpperCase()
+  return digits && (digits.length === 10 || digits.length === 13) ? digits : undefined
+}
+
+/** Reads the Calibre metadata of one book out of the contents of its `metadata.opf`. */
+export function parseOpf(xml: string, directory: string): CalibreBook {
+  const identifiers: Record<string, string> = {}
+  for (const { attributes, text } of elements(xml, 'identifier')) {
+    const scheme = attributes.scheme ?? text.match(/^(?:urn:)?(\w+):/)?.[1] ?? ''
+    identifiers[scheme.toLowerCase()] = text.replace(/^(?:urn:)?(?:isbn|uuid|calibre):/i, '')
+  }
+
+  const meta: Record<string, string> = {}
+  for (const { attributes } of elements(xml, 'meta')) {
+    if (attributes.name && attributes.content !== undefined) {
+      meta[attributes.name] = attributes.content
+    }
+  }
+
+  // Calibre writes 0101-01-01 when the publication date is unknown
+  const date = elements(xml, 'date')[0]?.text.match(/^(\d{4}-\d{2}-\d{2})/)?.[1]
+  const seriesIndex = Number(meta['calibre:series_index'])
+
+  return {
+    directory,
+    series: meta['calibre:series'] || undefined,
+    seriesIndex: meta['calibre:series'] && !isNaN(seriesIndex) ? seriesIndex : undefined,
+    publisher: elements(xml, 'publisher')[0]?.text || undefined,
+    published: date && !date.startsWith('0101') ? date : undefined,
+    isbn: isbnDigits(identifiers.isbn),
+    tags: elements(xml, 'subject').map(subject => subject.text).filter(Boolean),
+    calibreId: identifiers.calibre || undefined,
+    uuid: identifiers.uuid || undefined,
+  }
+}
+
+/** Splits KOReader's `identifiers`, one `scheme:value` per line, into lowercased schemes. */
+function bookIdentifiers(identifiers: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const line of (identifiers ?? '').split(/\\?\n/)) {
+    const match = line.trim().match(/^(?:urn:)?(\w+):(.+)$/)
+    if (match) {
+      result[match[1].toLowerCase()] = match[2].trim()
+    }
+  }
+  return result
+}
+
+/**
+ * Finds a book's Calibre metadata. Calibre keeps `metadata.opf` in the same folder as the book,
+ * and so as its `.sdr` folder; books whose metadata KOReader keeps elsewhere are matched by the
+ * Calibre UUID, Calibre ID or ISBN that Calibre embeds in the book and KOReader reads back.
+ *
+ * @param path path of the book's KOReader metadata file
+ */
+export function matchCalibreBook(library: CalibreBook[], path: string, book: BookInfo): CalibreBook | undefined {
+  const sdrDirectory = path.match(/^(.*\/)?[^/]*\.sdr\/[^/]*$/)
+  if (sdrDirectory) {
+    const byPath = library.find(candidate => candidate.directory === (sdrDirectory[1] ?? ''))
+    if (byPath) return byPath
+  }
+
+  const identifiers = bookIdentifiers(book.identifiers)
+  const isbn = isbnDigits(identifiers.isbn)
+  return library.find(candidate => identifiers.uuid && candidate.uuid === identifiers.uuid)
+    ?? library.find(candidate => identifiers.calibre && candidate.calibreId === identifiers.calibre)
+    ?? library.find(candidate => isbn && candidate.isbn === isbn)
+}
+
+/** Page properties from Calibre; the series and tags are page links, as KOReader's series is. */
+export function calibreProperties(book: CalibreBook): Record<string, string | number | undefined> {
+  return {
+    'series': book.series ? `[[${sanitizePageName(book.series)}]]` : undefined,
+    'series-index': book.seriesIndex,
+    'publisher': book.publisher,
+    'published': book.published,
+    'isbn': book.isbn,
+    'tags': book.tags.length > 0 ? book.tags.map(tag => `[[${tag}]]`).join(', ') : undefined,
+    'calibre-id': book.calibreId,
+  }
+}
+
+/**
+ * Adds the series, publisher, publication date, ISBN, tags and ID Calibre records for each book to
+ * its page. Does nothing when neither the OPF files nor the set of `freshPages` changed since
+ * `previous`.
+ *
+ * @param opfFiles the `metadata.opf` files in the directory, listed along with the KOReader metadata files
+ * @param books the synced books, with the paths of their KOReader metadata files
+ * @param freshPages UUIDs of the book pages written by this sync
+ */
+export async function importCalibreMetadata(
+  opfFiles: MetadataFile[],
+  books: Array<{ path: string, book: BookInfo }>,
+  freshPages: Set<string>,
+  previous?: CalibreSyncState
+): Promise<CalibreSyncState> {
+  const fingerprint = hashString(JSON.stringify(opfFiles.map(({ path, file }) => [path, file.lastModified, file.size])))
+  const changed = previous?.fingerprint !== fingerprint
+  if (!changed && freshPages.size === 0) {
+    return previous!
+  }
+
+  const library: CalibreBook[] = []
+  for (const { path, file } of opfFiles) {
+    library.push(parseOpf(await file.text(), path.slice(0, -CALIBRE_METADATA_FILE.length)))
+  }
+
+  const series: Record<string, { series: string, seriesIndex?: number }> = {}
+  for (const { path, book } of books) {
+    if (!changed && !freshPages.has(book.pageUUID)) {
+      const kept = previous?.series?.[book.pageUUID]
+      if (kept) series[book.pageUUID] = kept
+      continue
+    }
+
+    const calibreBook = matchCalibreBook(library, path, book)
+    if (calibreBook) {
+      // what Calibre leaves blank may have been written by the KOReader sync, so it is not removed
+      const known = Object.entries(calibreProperties(calibreBook)).filter(([, value]) => value !== undefined)
+      await refreshBookPageProperties(book.pageUUID, Object.fromEntries(known))
+      if (calibreBook.series) {
+        series[book.pageUUID] = { series: calibreBook.series, seriesIndex: calibreBook.seriesIndex }
+      }
+    }
+  }
+
+  return { fingerprint, series }
+}
+
+/** The books with the series Calibre records in place of KOReader's, as their pages show it. */
+export function withCalibreSeries(books: BookInfo[], state: CalibreSyncState | undefined): BookInfo[] {
+  return books.map(book => {
+    const calibre = state?.series?.[book.pageUUID]
+    return calibre ? { ...book, series: calibre.series, seriesIndex: calibre.seriesIndex } : book
+  })
+}
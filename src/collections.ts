@@ -0,0 +1,170 @@
+import '@logseq/libs'
+import { IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from './settings'
+import { BookInfo, groupBySeries, refreshBookPageProperties } from './book-pages'
+import { insertBlockTree } from './block-tree'
+import { findFile } from './filesystem'
+import { formatBlockTree } from './format'
+import { parseLuaTable } from './lua'
+import { FileFingerprint } from './sync-state'
+import { hashString, sanitizePageName } from './utils'
+
+/** A KOReader collection, with the device paths of its books in the user's order */
+export interface KOReaderCollection {
+  name: string
+  files: string[]
+}
+
+interface CollectionEntry {
+  file?: string
+  order?: number
+}
+
+/**
+ * Reads KOReader's `settings/collection.lua`. Each collection is a table of `{ file, order }` entries,
+ * next to a `settings` table in recent versions; the built-in `favorites` collection is named
+ * `Favorites` here, as KOReader shows it.
+ */
+export function readCollections(text: string): KOReaderCollection[] {
+  const table = parseLuaTable(text) as Record<string, Record<string, CollectionEntry> | CollectionEntry[]>
+
+  return Object.entries(table ?? {}).map(([name, collection]) => {
+    const entries = Object.values(collection ?? {}).filter((entry): entry is CollectionEntry & { file: string } =>
+      typeof entry?.file === 'string')
+    entries.sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+
+    return {
+      name: name === "favorites" ? "Favorites" : name,
+      files: entries.map(entry => entry.file),
+    }
+  })
+}
+
+/** The book file a sidecar belongs to, relative to the selected directory: `Books/Dune.sdr/metadata.epub.lua` is `Books/Dune.epub`. */
+export function bookFilePath(metadataPath: string): string | undefined {
+  const match = metadataPath.match(/^(.*)\.sdr\/metadata\.(\w+)\.lua$/)
+  return match ? `${match[1]}.${match[2]}` : undefined
+}
+
+/**
+ * Where a book is in a collection, or -1 if it is not in it. Collections list books by their path on
+ * the device, which the sidecar records; sidecars without it are matched on the end of that path.
+ */
+function collectionPosition(collection: KOReaderCollection, path: string, book: BookInfo): number {
+  const filePath = bookFilePath(path)
+
+  return collection.files.findIndex(file =>
+    book.docPath ? file === book.docPath : filePath !== undefined && (file === filePath || file.endsWith(`/${filePath}`)))
+}
+
+/** The collections a book is in. */
+export function bookCollections(collections: KOReaderCollection[], path: string, book: BookInfo): KOReaderCollection[] {
+  return collections.filter(collection => collectionPosition(collection, path, book) !== -1)
+}
+
+/** The block listing a series' or collection's books, with their reading status. */
+export function listingBlock(books: BookInfo[], settings: BookSettings): IBatchBlock {
+  const block = formatBlockTree({
+    content: "### Books",
+    children: books.map(book => ({
+      content: `[[${book.pageName}]]`,
+      properties: {
+        'series-index': book.seriesIndex,
+        'status': book.status,
+      },
+    })),
+  }, settings.format)
+
+  return { ...block, properties: { ...block.properties, 'koreader-listing': hashString(JSON.stringify(block)) } }
+}
+
+/**
+ * Keeps the listing block of a series or collection page up to date, creating the page if needed.
+ * The rest of the page is the user's; the listing is found, and left alone while unchanged, by the
+ * hash in its `koreader-listing` property.
+ */
+async function writeListingPage(pageName: string, listing: IBatchBlock, settings: BookSettings): Promise<void> {
+  const page = await logseq.Editor.getPage(pageName)
+    ?? await logseq.Editor.createPage(pageName, {}, { format: settings.format, redirect: false })
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(page!.uuid) || []
+  const existing = pageBlocks.find(block => block.properties?.koreaderListing !== undefined)
+
+  if (!existing) {
+    await insertBlockTree(page!.uuid, listing, { sibling: false })
+    return
+  }
+  if (String(existing.properties!.koreaderListing) === listing.properties!['koreader-listing']) {
+    return
+  }
+  await insertBlockTree(existing.uuid, listing, { sibling: true, before: true })
+  await logseq.Editor.removeBlock(existing.uuid)
+}
+
+/** Lists the books of each series, in reading order, on a page named after the series. */
+export async function updateSeriesPages(books: BookInfo[], settings: BookSettings): Promise<void> {
+  for (const [series, seriesBooks] of groupBySeries(books)) {
+    await writeListingPage(sanitizePageName(series), listingBlock(seriesBooks, settings), settings)
+  }
+}
+
+/** Links a book page to its collections, removing the link once it is in none. */
+async function writeBookCollections(pageUUID: string, collections: KOReaderCollection[]): Promise<void> {
+  if (collections.length > 0) {
+    await refreshBookPageProperties(pageUUID, {
+      'collections': collections.map(collection => `[[${sanitizePageName(collection.name)}]]`).join(', '),
+    })
+    return
+  }
+
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(pageUUID)
+  const propertiesBlock = (pageBlocks || []).find(block => block['preBlock?'])
+  if (propertiesBlock?.properties?.collections !== undefined) {
+    await logseq.Editor.removeBlockProperty(propertiesBlock.uuid, 'collections')
+  }
+}
+
+/**
+ * Gives every KOReader collection a page listing its books, and links each book page to its collections
+ * through a `collections::` property. Does nothing when neither `collection.lua` nor the set of
+ * `freshPages` changed since `previous`.
+ *
+ * @param books the synced books, with the paths of their KOReader metadata files
+ * @param freshPages UUIDs of the book pages written by this sync
+ */
+export async function syncCollections(
+  directoryHandle: any,
+  books: Array<{ path: string, book: BookInfo }>,
+  freshPages: Set<string>,
+  settings: BookSettings,
+  previous?: FileFingerprint
+): Promise<FileFingerprint | undefined> {
+  const file = await findFile(directoryHandle, "collection.lua")
+  if (!file) {
+    console.warn("KOReader Sync: collection.lua not found in the KOReader directory, skipping collections.")
+    return previous
+  }
+
+  const changed = !previous || previous.lastModified !== file.lastModified || previous.size !== file.size
+  if (!changed && freshPages.size === 0) {
+    return previous
+  }
+
+  const collections = readCollections(await file.text())
+
+  for (const { path, book } of books) {
+    if (changed || freshPages.has(book.pageUUID)) {
+      await writeBookCollections(book.pageUUID, bookCollections(collections, path, book))
+    }
+  }
+
+  for (const collection of collections) {
+    const listed = books
+      .map(({ path, book }) => ({ book, position: collectionPosition(collection, path, book) }))
+      .filter(({ position }) => position !== -1)
+      .sort((a, b) => a.position - b.position)
+      .map(({ book }) => book)
+    await writeListingPage(sanitizePageName(collection.name), listingBlock(listed, settings), settings)
+  }
+
+  return { lastModified: file.lastModified, size: file.size }
+}
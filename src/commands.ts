@@ -0,0 +1,135 @@
+import '@logseq/libs'
+import { BlockEntity, PageEntity } from '@logseq/libs/dist/LSPlugin'
+import { getBookSettings } from './settings'
+import { SyncOptions } from './sync/options'
+import { ExportFormat } from './export'
+
+interface SyncCommand {
+  key: string
+  label: string
+  run: () => Promise<void>
+}
+
+/** The `koreader-source` property of the book page being viewed, or null if it was not synced from KOReader */
+export async function currentBookSource(): Promise<string | null> {
+  const current: BlockEntity | PageEntity | null = await logseq.Editor.getCurrentPage()
+  // when a block is zoomed in, the "current page" is that block
+  const blockPage = (current as BlockEntity | null)?.page
+  const page = blockPage ? await logseq.Editor.getPage(blockPage.id) : current
+
+  return page?.properties?.koreaderSource ?? null
+}
+
+/** Like `currentBookSource`, but tells the user when the current page has none */
+async function requireCurrentBookSource(): Promise<string | null> {
+  const source = await currentBookSource()
+  if (!source) {
+    logseq.UI.showMsg("KOReader Sync: the current page was not synced from KOReader.", "warning")
+  }
+  return source
+}
+
+/** Resolves the metadata file of the current book page, telling the user why if there is none */
+async function currentBookPaths(): Promise<string[] | null> {
+  if (getBookSettings().syncMode !== "per-page") {
+    logseq.UI.showMsg("KOReader Sync: syncing a single book is only available in per-page mode.", "warning")
+    return null
+  }
+
+  const source = await requireCurrentBookSource()
+  return source ? [source] : null
+}
+
+const EXPORT_COMMANDS: Array<{ format: ExportFormat, name: string }> = [
+  { format: "markdown", name: "Markdown" },
+  { format: "json", name: "JSON" },
+  { format: "csv", name: "CSV" },
+]
+
+/** Registers every sync operation both in the command palette and as a slash command */
+export function registerCommands(
+  runSync: (options: SyncOptions) => Promise<void>,
+  runMigration: () => Promise<void>,
+  runExport: (path: string, format: ExportFormat) => Promise<void>,
+  runProgressSync: () => Promise<void>
+) {
+  const commands: SyncCommand[] = [
+    {
+      key: 'koreader-sync-all',
+      label: 'KOReader Sync: Sync all books',
+      run: () => runSync({ dryRun: getBookSettings().previewBeforeSync }),
+    },
+    {
+      key: 'koreader-sync-current-book',
+      label: 'KOReader Sync: Sync current book',
+      run: async () => {
+        const paths = await currentBookPaths()
+        if (paths) await runSync({ paths, dryRun: getBookSettings().previewBeforeSync })
+      },
+    },
+    {
+      key: 'koreader-sync-resync-current-book',
+      label: 'KOReader Sync: Force resync current book',
+      run: async () => {
+        const paths = await currentBookPaths()
+        if (paths) await runSync({ paths, force: true })
+      },
+    },
+    {
+      key: 'koreader-sync-force-full-resync',
+      label: 'KOReader Sync: Force full resync',
+      run: () => runSync({ force: true }),
+    },
+    {
+      key: 'koreader-sync-preview',
+      label: 'KOReader Sync: Preview sync',
+      run: () => runSync({ dryRun: true }),
+    },
+    {
+      key: 'koreader-sync-change-directory',
+      label: 'KOReader Sync: Change KOReader directory',
+      run: () => runSync({ pickDirectory: true, dryRun: getBookSettings().previewBeforeSync }),
+    },
+    {
+      key: 'koreader-sync-migrate-to-per-page',
+      label: 'KOReader Sync: Migrate sync page to per-page mode',
+      run: runMigration,
+    },
+    {
+      key: 'koreader-sync-kosync-progress',
+      label: 'KOReader Sync: Update reading progress from kosync server',
+      run: async () => {
+        const settings = getBookSettings()
+        if (settings.syncMode !== "per-page") {
+          logseq.UI.showMsg("KOReader Sync: reading progress is only written to book pages in per-page mode.", "warning")
+        } else if (!settings.kosyncServer) {
+          logseq.UI.showMsg("KOReader Sync: set a progress sync server in the plugin settings first.", "warning")
+        } else {
+          await runProgressSync()
+        }
+      },
+    },
+    {
+      key: 'koreader-sync-open-index',
+      label: 'KOReader Sync: Open index page',
+      run: async () => {
+        const settings = getBookSettings()
+        const name = settings.syncMode === "per-page" ? settings.indexPageName : settings.syncPageName
+        logseq.App.pushState('page', { name })
+      },
+    },
+    ...EXPORT_COMMANDS.map(({ format, name }) => ({
+      key: `koreader-sync-export-${format}`,
+      label: `KOReader Sync: Export current book as ${name}`,
+      run: async () => {
+        const source = await requireCurrentBookSource()
+        if (source) await runExport(source, format)
+      },
+    })),
+  ]
+
+  for (const command of commands) {
+    logseq.App.registerCommandPalette({ key: command.key, label: command.label }, command.run)
+    logseq.Editor.registerSlashCommand(command.label, command.run)
+  }
+}
@@ -0,0 +1,205 @@
+import '@logseq/libs'
+import { getMetadataFiles } from './filesystem'
+import { isKindleSource, readKindleBook } from './kindle'
+import { annotation_id, KOReaderMetadata, lua_to_block } from './metadata'
+import { normalizeAuthors } from './utils'
+
+export type ExportFormat = "markdown" | "json" | "csv"
+
+/** One annotation, with everything KOReader records about it */
+export interface ExportedAnnotation {
+  /** The `koreader-id` of its synced block */
+  id: string
+  type: "highlight" | "note" | "bookmark"
+  text?: string
+  note?: string
+  chapter?: string
+  page?: number | string
+  color?: string
+  drawer?: string
+  datetime?: string
+  datetime_updated?: string
+  pos0?: string
+  pos1?: string
+}
+
+export interface BookExport {
+  title: string
+  authors?: string
+  description?: string
+  language?: string
+  series?: string
+  status?: string
+  rating?: number
+  review?: string
+  /** Fraction of the book read, from 0 to 1 */
+  progress?: number
+  md5?: string
+  annotations: ExportedAnnotation[]
+}
+
+/** Collects a book and its annotations from the parsed metadata, from the modern `annotations` table or the legacy `bookmarks` one. */
+export function exportBook(metadata: KOReaderMetadata): BookExport {
+  let annotations: ExportedAnnotation[]
+
+  // an emptied table reads as an object rather than a list
+  if (Array.isArray(metadata.annotations)) {
+    annotations = metadata.annotations.map(annotation => ({
+      id: annotation_id(metadata, annotation),
+      type: !annotation.pos0 ? "bookmark" : annotation.note ? "note" : "highlight",
+      text: annotation.text,
+      note: annotation.note,
+      chapter: annotation.chapter,
+      page: annotation.pageno ?? annotation.page,
+      color: annotation.color,
+      drawer: annotation.drawer,
+      datetime: annotation.datetime,
+      datetime_updated: annotation.datetime_updated,
+      pos0: annotation.pos0,
+      pos1: annotation.pos1,
+    }))
+  } else {
+    // legacy entries keep the highlighted text in `notes` and the user's note in `text`
+    annotations = (Array.isArray(metadata.bookmarks) ? metadata.bookmarks : []).map(bookmark => ({
+      id: annotation_id(metadata, bookmark),
+      type: !bookmark.highlighted ? "bookmark" : bookmark.text ? "note" : "highlight",
+      text: bookmark.notes,
+      note: bookmark.text,
+      chapter: bookmark.chapter,
+      page: bookmark.page,
+      datetime: bookmark.datetime,
+      pos0: bookmark.pos0,
+      pos1: bookmark.pos1,
+    }))
+  }
+
+  const summary = metadata.summary || {}
+  return {
+    title: metadata.doc_props.title || "Untitled Book",
+    authors: normalizeAuthors(metadata.doc_props.authors),
+    description: metadata.doc_props.description,
+    language: metadata.doc_props.language,
+    series: metadata.doc_props.series,
+    status: summary.status,
+    rating: summary.rating || undefined,
+    review: summary.note,
+    progress: metadata.percent_finished,
+    md5: metadata.partial_md5_checksum,
+    annotations,
+  }
+}
+
+/** A standalone Markdown document, with a heading whenever the chapter changes. */
+export function toMarkdown(book: BookExport): string {
+  const lines: string[] = [`# ${book.title}`, '']
+
+  const details = [
+    book.authors && `**Authors:** ${book.authors}`,
+    book.series && `**Series:** ${book.series}`,
+    book.status && `**Status:** ${book.status}`,
+    book.rating && `**Rating:** ${book.rating}/5`,
+    typeof book.progress === 'number' && `**Progress:** ${Math.round(book.progress * 100)}%`,
+  ].filter((detail): detail is string => Boolean(detail))
+  if (details.length > 0) {
+    lines.push(details.join('  \n'), '')
+  }
+  if (book.review) {
+    lines.push(book.review, '')
+  }
+
+  let chapter: string | undefined
+  for (const annotation of book.annotations) {
+    if (annotation.chapter && annotation.chapter !== chapter) {
+      chapter = annotation.chapter
+      lines.push(`## ${chapter}`, '')
+    }
+
+    const text = annotation.type === "bookmark" ? "Page bookmark" : annotation.text ?? ""
+    lines.push(...text.split('\n').map(line => `> ${line}`), '')
+    if (annotation.note) {
+      lines.push(annotation.note, '')
+    }
+
+    const context = [
+      annotation.page !== undefined && `page ${annotation.page}`,
+      annotation.color,
+      annotation.datetime_updated ?? annotation.datetime,
+    ].filter((part): part is string => Boolean(part))
+    if (context.length > 0) {
+      lines.push(`*${context.join(' · ')}*`, '')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+export function toJSON(book: BookExport): string {
+  return JSON.stringify(book, null, 2)
+}
+
+const CSV_COLUMNS: Array<keyof ExportedAnnotation> = [
+  "id", "type", "chapter", "page", "text", "note", "color", "drawer", "datetime", "datetime_updated", "pos0", "pos1",
+]
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One row per annotation, with the book's title and authors repeated so exports of several books can be concatenated. */
+export function toCSV(book: BookExport): string {
+  const rows = [
+    ["title", "authors", ...CSV_COLUMNS],
+    ...book.annotations.map(annotation => [book.title, book.authors, ...CSV_COLUMNS.map(column => annotation[column])]),
+  ]
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string, mimeType: string, render: (book: BookExport) => string }> = {
+  markdown: { extension: "md", mimeType: "text/markdown", render: toMarkdown },
+  json: { extension: "json", mimeType: "application/json", render: toJSON },
+  csv: { extension: "csv", mimeType: "text/csv", render: toCSV },
+}
+
+export function exportFileName(book: BookExport, format: ExportFormat): string {
+  const name = book.authors ? `${book.authors} - ${book.title}` : book.title
+  return `${name.replace(/[\\/:*?"<>|]/g, '_')}.${EXPORT_FILE_TYPES[format].extension}`
+}
+
+/** Hands a file to the browser's download manager. */
+export function downloadFile(name: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = name
+  link.click()
+  // revoking right away can cancel the download before the browser has started it
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** The metadata of the book synced from `path`: a KOReader metadata file, or a book in Kindle's clippings */
+async function readBookSource(directoryHandle: any, path: string): Promise<KOReaderMetadata | null> {
+  if (isKindleSource(path)) {
+    return await readKindleBook(directoryHandle, path)
+  }
+
+  const file = (await getMetadataFiles(directoryHandle)).find(candidate => candidate.path === path)
+  return file ? lua_to_block(await file.file.text()).metadata : null
+}
+
+/**
+ * Exports the annotations of the book synced from `path`, read fresh from `directoryHandle` rather
+ * than from the graph, so nothing the rendered blocks leave out is lost.
+ * Returns false if the book is not in the directory.
+ */
+export async function exportBookFile(directoryHandle: any, path: string, format: ExportFormat): Promise<boolean> {
+  const metadata = await readBookSource(directoryHandle, path)
+  if (!metadata) {
+    return false
+  }
+
+  const book = exportBook(metadata)
+  const { mimeType, render } = EXPORT_FILE_TYPES[format]
+  downloadFile(exportFileName(book, format), render(book), mimeType)
+  return true
+}
@@ -1,33 +1,102 @@
 import '@logseq/libs'
 
-/** Used to find all of the KOReader metadata files in a directory and its subdirectories */
-export async function* walkDirectory(directoryHandle: any) {
+export interface MetadataFile {
+  /** Path relative to the selected directory, which stays stable across syncs */
+  path: string
+  file: File
+}
+
+/**
+ * Used to find all of the KOReader metadata files in a directory and its subdirectories, and any
+ * files named in `companions` along the way
+ */
+export async function* walkDirectory(directoryHandle: any, path: string = '', companions: string[] = []): AsyncGenerator<MetadataFile> {
   if (directoryHandle.kind === "file") {
     const file = await directoryHandle.getFile()
-    if (file !== null && file.name.toLowerCase().endsWith('.lua') && file.name.toLowerCase().includes('metadata')) {
-      yield file
+    const name = file?.name.toLowerCase()
+    if (file !== null && ((name.endsWith('.lua') && name.includes('metadata')) || companions.includes(file.name))) {
+      yield { path: `${path}${file.name}`, file }
     }
   } else if (directoryHandle.kind === "directory") {
     for await (const handle of directoryHandle.values()) {
-      yield* walkDirectory(handle)
+      yield* walkDirectory(handle, handle.kind === "directory" ? `${path}${handle.name}/` : path, companions)
     }
   }
 }
 
-export async function getMetadataFiles(directoryHandle: any): Promise<File[]> {
-  const files: File[] = []
-  for await (const file of walkDirectory(directoryHandle)) {
+/**
+ * Lists the KOReader metadata files under the directory.
+ *
+ * @param companions names of other files to list in the same walk, such as Calibre's `metadata.opf`
+ */
+export async function getMetadataFiles(directoryHandle: any, companions: string[] = []): Promise<MetadataFile[]> {
+  const files: MetadataFile[] = []
+  for await (const file of walkDirectory(directoryHandle, '', companions)) {
     files.push(file)
   }
   return files
 }
 
+/** The name of the file at a `MetadataFile.path` */
+export function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+/** Finds a file by name anywhere under the directory, e.g. KOReader's `settings/statistics.sqlite3` */
+export async function findFile(directoryHandle: any, name: string): Promise<File | null> {
+  for await (const handle of directoryHandle.values()) {
+    if (handle.kind === "file" && handle.name === name) {
+      return await handle.getFile()
+    }
+    if (handle.kind === "directory") {
+      const file = await findFile(handle, name)
+      if (file) return file
+    }
+  }
+  return null
+}
+
+/** The handle of the file at `path`, relative to the directory, as in `MetadataFile.path` */
+export async function getFileHandle(directoryHandle: any, path: string, create: boolean = false): Promise<any> {
+  const parts = path.split('/')
+  let handle = directoryHandle
+  for (const directory of parts.slice(0, -1)) {
+    handle = await handle.getDirectoryHandle(directory)
+  }
+  return await handle.getFileHandle(parts[parts.length - 1], { create })
+}
+
+async function writeFile(fileHandle: any, text: string): Promise<void> {
+  const writable = await fileHandle.createWritable()
+  await writable.write(text)
+  await writable.close()
+}
+
+/**
+ * Replaces the contents of the file at `path`, after copying what it held to `<path>.bak` beside it.
+ * The directory needs `readwrite` permission.
+ */
+export async function writeFileWithBackup(directoryHandle: any, path: string, text: string): Promise<void> {
+  const fileHandle = await getFileHandle(directoryHandle, path)
+  const previous = await (await fileHandle.getFile()).text()
+
+  await writeFile(await getFileHandle(directoryHandle, `${path}.bak`, true), previous)
+  await writeFile(fileHandle, text)
+}
+
+export type PermissionMode = 'read' | 'readwrite'
+
 // https://developer.chrome.com/docs/capabilities/web-apis/file-system-access#stored_file_or_directory_handles_and_permissions
-export async function verifyPermission(fileHandle: any) {
-  if ((await fileHandle.queryPermission({})) === 'granted') {
+/** Whether the handle can be read, or also written, without prompting the user */
+export async function hasPermission(fileHandle: any, mode: PermissionMode = 'read') {
+  return (await fileHandle.queryPermission({ mode })) === 'granted'
+}
+
+export async function verifyPermission(fileHandle: any, mode: PermissionMode = 'read') {
+  if (await hasPermission(fileHandle, mode)) {
     return true
   }
-  if ((await fileHandle.requestPermission({})) === 'granted') {
+  if ((await fileHandle.requestPermission({ mode })) === 'granted') {
     return true
   }
   return false
@@ -0,0 +1,73 @@
+import '@logseq/libs'
+import { IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { stripProperties } from './utils'
+
+export type BlockFormat = "markdown" | "org"
+
+let preferredFormat: BlockFormat = "markdown"
+
+/** Reads the graph's preferred format; pages and blocks are written in it until the next call. */
+export async function detectPreferredFormat(): Promise<BlockFormat> {
+  const configs = await logseq.App.getUserConfigs()
+  preferredFormat = configs?.preferredFormat === "org" ? "org" : "markdown"
+  return preferredFormat
+}
+
+export function getPreferredFormat(): BlockFormat {
+  return preferredFormat
+}
+
+/**
+ * Rewrites a block rendered as Markdown for an Org graph: a leading `#` heading becomes the block's
+ * `heading` property, and `> ` quoted lines, up to the end of the block, become a quote block.
+ * Markdown blocks are returned as they are.
+ */
+export function formatBlock(block: IBatchBlock, format: BlockFormat): IBatchBlock {
+  if (format === "markdown") {
+    return block
+  }
+
+  let lines = block.content.split('\n')
+  let properties = block.properties
+
+  const heading = lines[0].match(/^(#{1,6})\s+(.*)/)
+  if (heading) {
+    lines = [heading[2], ...lines.slice(1)]
+    properties = { ...properties, 'heading': heading[1].length }
+  }
+
+  const quote = lines.findIndex(line => line.startsWith('> '))
+  if (quote !== -1) {
+    lines = [
+      ...lines.slice(0, quote),
+      '#+BEGIN_QUOTE',
+      ...lines.slice(quote).map(line => line.startsWith('> ') ? line.substring(2) : line),
+      '#+END_QUOTE',
+    ]
+  }
+
+  return { ...block, content: lines.join('\n'), ...(properties ? { properties } : {}) }
+}
+
+/** Applies `formatBlock` to a block and all of its descendants. */
+export function formatBlockTree(block: IBatchBlock, format: BlockFormat): IBatchBlock {
+  const formatted = formatBlock(block, format)
+  if (!block.children) {
+    return formatted
+  }
+  return { ...formatted, children: block.children.map(child => formatBlockTree(child, format)) }
+}
+
+/** The level and text of a heading block in either format, or null if the block is not a heading. */
+export function parseHeading(content: string, properties?: Record<string, unknown>): { level: number, text: string } | null {
+  const line = stripProperties(content).split('\n')[0]
+
+  const markdown = line.match(/^(#{1,6})\s+(.*)/)
+  if (markdown) {
+    return { level: markdown[1].length, text: markdown[2] }
+  }
+
+  // Org headings keep their level in a `heading` property; `heading:: true` only means "style as a heading"
+  const level = typeof properties?.heading === 'boolean' ? 0 : Number(properties?.heading)
+  return level > 0 ? { level, text: line } : null
+}
@@ -0,0 +1,248 @@
+import '@logseq/libs'
+import { BlockEntity, BlockUUIDTuple, IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from './settings'
+import { BookInfo, groupBySeries } from './book-pages'
+import { formatBlockTree } from './format'
+import { bookmarkNeedsUpdate } from './sync/bookmarks'
+import { sanitizePageName, stripProperties } from './utils'
+
+export interface IndexSummary {
+  books: number
+  highlights: number
+  notes: number
+  finishedThisYear: number
+}
+
+export function indexSummary(books: BookInfo[], now: Date = new Date()): IndexSummary {
+  const year = String(now.getFullYear())
+
+  return {
+    books: books.length,
+    highlights: books.reduce((total, book) => total + (book.highlights ?? 0), 0),
+    notes: books.reduce((total, book) => total + (book.notes ?? 0), 0),
+    finishedThisYear: books.filter(book => book.finished?.startsWith(year)).length,
+  }
+}
+
+/** Each sort order, as a comparison; the newest, furthest read and most highlighted books come first. */
+const SORT_ORDERS: Record<string, (a: BookInfo, b: BookInfo) => number> = {
+  "title": (a, b) => a.title.localeCompare(b.title),
+  "author": (a, b) => (a.authors ?? '').localeCompare(b.authors ?? '') || a.title.localeCompare(b.title),
+  "last-annotated": (a, b) => (b.lastAnnotated ?? '').localeCompare(a.lastAnnotated ?? ''),
+  "progress": (a, b) => (parseInt(b.progress ?? '') || 0) - (parseInt(a.progress ?? '') || 0),
+  "highlights": (a, b) => (b.highlights ?? 0) - (a.highlights ?? 0),
+}
+
+/** Sorts books by the `indexSortOrder` setting, falling back to their title. */
+export function sortBooks(books: BookInfo[], order: string): BookInfo[] {
+  const compare = SORT_ORDERS[order] ?? SORT_ORDERS.title
+  return [...books].sort((a, b) => compare(a, b) || a.title.localeCompare(b.title))
+}
+
+/** KOReader's reading statuses, in the order their groups are listed, named as KOReader shows them */
+const STATUS_GROUPS: Record<string, string> = {
+  "reading": "Reading",
+  "complete": "Finished",
+  "abandoned": "On hold",
+}
+
+/** Splits books into the groups of the `indexGroupBy` setting: by reading status, by author, or all together. */
+export function groupBooks(books: BookInfo[], groupBy: string): Array<[string, BookInfo[]]> {
+  if (groupBy !== "status" && groupBy !== "author") {
+    return [["All Books", books]]
+  }
+
+  const groups: Record<string, BookInfo[]> = {}
+  for (const book of books) {
+    const name = groupBy === "status"
+      ? (book.status ? STATUS_GROUPS[book.status] ?? book.status : "Not started")
+      : book.authors ?? "Unknown author"
+    groups[name] = [...groups[name] ?? [], book]
+  }
+
+  const order = groupBy === "status" ? [...Object.values(STATUS_GROUPS), "Not started"] : []
+  const rank = (name: string) => order.includes(name) ? order.indexOf(name) : order.length
+  return Object.entries(groups).sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+}
+
+/** One book in a group or series, keyed by section so the same book can be listed under both. */
+function bookRow(book: BookInfo, key: string): IBatchBlock {
+  return {
+    content: `[[${book.pageName}]]`,
+    properties: {
+      'authors': book.authors,
+      'status': book.status,
+      'rating': book.rating,
+      'progress': book.progress,
+      'highlights': book.highlights ?? 0,
+      'notes': book.notes ?? 0,
+      'last-annotated': book.lastAnnotated,
+      'koreader-index': key,
+    },
+  }
+}
+
+/** The index page's view of the books grouped by series; empty when no book is part of one. */
+function seriesIndexBlocks(books: BookInfo[], settings: BookSettings): IBatchBlock[] {
+  const series = groupBySeries(books)
+  if (series.length === 0) {
+    return []
+  }
+
+  return [{
+    content: `## By Series (${series.length})`,
+    properties: { 'koreader-index': 'series' },
+    children: series.map(([name, seriesBooks]) => ({
+      content: settings.seriesAndCollectionPages ? `[[${sanitizePageName(name)}]]` : name,
+      properties: { 'koreader-index': `series/${name}` },
+      children: seriesBooks.map(book => ({
+        content: `[[${book.pageName}]]`,
+        properties: {
+          'series-index': book.seriesIndex,
+          'status': book.status,
+          'koreader-index': `series/${name}/${book.pageUUID}`,
+        },
+      })),
+    })),
+  }]
+}
+
+/**
+ * The blocks of the index page. Every block has a `koreader-index` key, by which the next sync finds
+ * it again; book rows are keyed by their page, so they keep their UUID when they move between groups.
+ */
+export function indexBlocks(books: BookInfo[], settings: BookSettings, now: Date = new Date()): IBatchBlock[] {
+  const summary = indexSummary(books, now)
+
+  return [{
+    content: `# KOReader Books Index`,
+    properties: { 'koreader-index': 'root' },
+    children: [
+      {
+        content: `Last synced: ${now.toLocaleString()}`,
+        properties: { 'koreader-index': 'last-synced' },
+      },
+      {
+        content: `Books: ${summary.books} · Highlights: ${summary.highlights} · Notes: ${summary.notes} · Finished in ${now.getFullYear()}: ${summary.finishedThisYear}`,
+        properties: { 'koreader-index': 'summary' },
+      },
+      ...groupBooks(sortBooks(books, settings.indexSortOrder), settings.indexGroupBy).map(([name, members]) => ({
+        content: `## ${name} (${members.length})`,
+        properties: { 'koreader-index': `group/${name}` },
+        children: members.map(book => bookRow(book, `book/${book.pageUUID}`)),
+      })),
+      ...seriesIndexBlocks(books, settings),
+      {
+        content: `## Table`,
+        properties: { 'koreader-index': 'table', 'collapsed': true },
+        children: [{
+          content: `{{query (and (page "${settings.indexPageName}") (property :highlights))}}`,
+          properties: {
+            'query-table': true,
+            'query-properties': '[:block :authors :status :rating :progress :highlights :notes :last-annotated]',
+            'koreader-index': 'table/query',
+          },
+        }],
+      },
+    ],
+  }]
+}
+
+/** Where a keyed block was found: its parent, and the sibling before it, if any. */
+interface PlacedBlock {
+  block: BlockEntity
+  parent: string
+  previous?: string
+}
+
+function collectKeyedBlocks(blocks: Array<BlockEntity | BlockUUIDTuple>, parent: string, keyed: Map<string, PlacedBlock>): void {
+  let previous: string | undefined
+  for (const block of blocks) {
+    if (Array.isArray(block)) continue
+
+    if (block.properties?.koreaderIndex !== undefined) {
+      keyed.set(String(block.properties.koreaderIndex), { block, parent, previous })
+    }
+    collectKeyedBlocks(block.children || [], block.uuid, keyed)
+    previous = block.uuid
+  }
+}
+
+/**
+ * Puts `blocks` under `parent` in order, updating and moving the existing block with the same key
+ * rather than replacing it, so references to index entries survive a sync. Found blocks are taken out
+ * of `keyed`; what is left in it afterwards is no longer part of the index.
+ *
+ * @param movable false for the top level of the page, where Logseq cannot move blocks to the front
+ */
+async function placeBlocks(blocks: IBatchBlock[], parent: string, keyed: Map<string, PlacedBlock>, movable: boolean = true): Promise<void> {
+  let previous: string | undefined
+
+  for (const block of blocks) {
+    const key = String(block.properties!['koreader-index'])
+    const placed = keyed.get(key)
+    let uuid: string
+
+    if (placed) {
+      keyed.delete(key)
+      uuid = placed.block.uuid
+      if (bookmarkNeedsUpdate(placed.block.content, placed.block.properties || {}, block)) {
+        await logseq.Editor.updateBlock(uuid, block.content, { properties: block.properties })
+      }
+      if (movable && (placed.parent !== parent || placed.previous !== previous)) {
+        await logseq.Editor.moveBlock(uuid, previous ?? parent, previous ? { before: false } : { children: true })
+      }
+    } else {
+      const inserted = previous
+        ? await logseq.Editor.insertBlock(previous, block.content, { sibling: true, properties: block.properties })
+        : await logseq.Editor.insertBlock(parent, block.content, { sibling: false, properties: block.properties })
+      uuid = inserted!.uuid
+    }
+
+    await placeBlocks(block.children || [], uuid, keyed)
+    previous = uuid
+  }
+}
+
+/**
+ * Brings the index page up to date in place. Blocks added to the page by the user are left alone;
+ * the unkeyed index written by earlier versions is replaced.
+ */
+export async function updateIndexPage(books: BookInfo[], settings: BookSettings): Promise<void> {
+  const indexPageName = settings.indexPageName
+
+  let indexPage = await logseq.Editor.getPage(indexPageName)
+  if (!indexPage) {
+    indexPage = await logseq.Editor.createPage(
+      indexPageName,
+      {
+        'type': 'koreader-index',
+      },
+      // a silent sync must not navigate away from what the user is looking at
+      { format: settings.format, redirect: false }
+    )
+  }
+
+  const pageUUID = indexPage!.uuid
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(pageUUID) || []
+  const keyed = new Map<string, PlacedBlock>()
+  collectKeyedBlocks(pageBlocks, pageUUID, keyed)
+
+  if (keyed.size === 0) {
+    for (const block of pageBlocks) {
+      if (stripProperties(block.content).replace(/^#+\s*/, '') === "KOReader Books Index") {
+        await logseq.Editor.removeBlock(block.uuid)
+      }
+    }
+  }
+
+  await placeBlocks(indexBlocks(books, settings).map(block => formatBlockTree(block, settings.format)), pageUUID, keyed, false)
+
+  // a block whose parent is also gone goes with it
+  const stale = new Set([...keyed.values()].map(placed => placed.block.uuid))
+  for (const placed of keyed.values()) {
+    if (!stale.has(placed.parent)) {
+      await logseq.Editor.removeBlock(placed.block.uuid)
+    }
+  }
+}
@@ -2,67 +2,224 @@ import '@logseq/libs'
 import { get as getStorage, set as setStorage } from 'idb-keyval'
 import { settings, onSettingsChange, getBookSettings } from './settings'
 import { showErrorToUser } from './utils'
-import { verifyPermission } from './filesystem'
+import { getMetadataFiles, hasPermission, verifyPermission } from './filesystem'
 import { syncSinglePageMode } from './sync/single'
 import { syncPerPageMode } from './sync/per'
+import { SyncOptions } from './sync/options'
+import { withSyncLock } from './sync/lock'
+import { planSync } from './sync/plan'
+import { loadSyncState, saveSyncState } from './sync-state'
+import { closeSyncPlan, showSyncPlan } from './preview'
+import { autoSyncInterval, scheduleAutoSync } from './scheduler'
+import { registerCommands } from './commands'
+import { migrateToPerPageMode } from './migration'
+import { detectPreferredFormat } from './format'
+import { exportBookFile, ExportFormat } from './export'
+import { syncKosyncProgress } from './kosync'
+
+/** The sync waiting for the user to confirm its previewed plan */
+let pendingSync: SyncOptions | null = null
 
 /**
- * main entry
- * @param baseInfo
+ * Finds the KOReader directory to sync. Interactive syncs fall back to the directory picker;
+ * silent ones only use the remembered handle, and only if it is still readable without a prompt.
+ * `pickDirectory` skips the remembered handle and always asks.
  */
-function main () {
-  let loading = false
+async function getDirectoryHandle(options: SyncOptions): Promise<any> {
+  let directoryHandle: any = options.pickDirectory ? null : await getStorage('logseq_koreader_sync__directoryHandle')
 
-  logseq.useSettingsSchema(settings)
-  logseq.provideModel({
-    async syncKOReader () {
-      onSettingsChange()
-      logseq.onSettingsChanged(onSettingsChange)
+  if (options.silent) {
+    return directoryHandle && await hasPermission(directoryHandle) ? directoryHandle : null
+  }
 
-      await logseq.App.getUserConfigs()
-      if (loading) return
+  let permission
+  if (directoryHandle) {
+    permission = await verifyPermission(directoryHandle)
+  }
 
-      loading = true
+  if (!directoryHandle || !permission) {
+    try {
+      directoryHandle = await window.showDirectoryPicker()
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      await showErrorToUser("Failed to select KOReader directory. Please try again.", `Directory selection error: ${errorDetails}`)
+      return null
+    }
 
-      const currentSettings = getBookSettings()
+    if (logseq.settings?.rememberDirectory) {
+      setStorage('logseq_koreader_sync__directoryHandle', directoryHandle)
+    }
+  }
 
-      let directoryHandle: any = await getStorage('logseq_koreader_sync__directoryHandle')
+  if (!directoryHandle) {
+    await showErrorToUser("No KOReader directory selected.", "Directory handle is null or undefined. Please select a valid KOReader metadata directory.")
+  }
+  return directoryHandle
+}
 
-      let permission
-      if (directoryHandle) {
-        permission = await verifyPermission(directoryHandle)
-      }
+async function sync(options: SyncOptions) {
+  onSettingsChange()
 
-      if (!directoryHandle || !permission) {
-        try {
-          directoryHandle = await window.showDirectoryPicker()
-        } catch (e) {
-          const errorDetails = e instanceof Error ? e.message : String(e)
-          await showErrorToUser("Failed to select KOReader directory. Please try again.", `Directory selection error: ${errorDetails}`)
-          loading = false
-          return
-        }
-
-        if (logseq.settings?.rememberDirectory) {
-          setStorage('logseq_koreader_sync__directoryHandle', directoryHandle)
-        }
-      }
+  await detectPreferredFormat()
 
-      if (!directoryHandle) {
-        await showErrorToUser("No KOReader directory selected.", "Directory handle is null or undefined. Please select a valid KOReader metadata directory.")
-        loading = false
-        return
-      }
+  const currentSettings = getBookSettings()
 
-      if (currentSettings.syncMode === "per-page") {
-        await syncPerPageMode(directoryHandle)
-      } else {
-        await syncSinglePageMode(directoryHandle)
-      }
+  const directoryHandle = await getDirectoryHandle(options)
+  if (!directoryHandle) {
+    if (options.silent) {
+      console.warn("KOReader Sync: the KOReader directory is not accessible without a prompt, skipping automatic sync.")
+    }
+    return
+  }
+
+  if (options.dryRun) {
+    const files = await getMetadataFiles(directoryHandle)
+    const operations = await planSync(files, currentSettings, await loadSyncState(currentSettings), options)
+
+    if (operations.length === 0) {
+      logseq.UI.showMsg("KOReader Sync: everything is up to date.", "success")
+      return
+    }
+
+    pendingSync = { ...options, dryRun: false, pickDirectory: false }
+    showSyncPlan(operations)
+    return
+  }
+
+  if (currentSettings.syncMode === "per-page") {
+    if (currentSettings.writeBackNotes && !options.silent) {
+      // only asked for by syncs the user started; automatic ones write back once it has been granted
+      await verifyPermission(directoryHandle, 'readwrite')
+    }
+    await syncPerPageMode(directoryHandle, options)
+  } else {
+    await syncSinglePageMode(directoryHandle, options)
+  }
+}
+
+async function runSync(options: SyncOptions = {}) {
+  const ran = await withSyncLock(() => sync(options))
+  if (!ran && !options.silent) {
+    logseq.UI.showMsg("KOReader Sync: a sync is already running.", "warning")
+  }
+}
+
+async function runMigration() {
+  const ran = await withSyncLock(async () => {
+    const directoryHandle = await getDirectoryHandle({})
+    if (!directoryHandle) return
 
-      loading = false
+    await detectPreferredFormat()
+
+    const report = await migrateToPerPageMode(directoryHandle)
+    if (report.migrated.length === 0) {
+      console.warn("KOReader Sync: books not migrated:", report.skipped)
+      logseq.UI.showMsg(`KOReader Sync: no book could be migrated, staying in single-page mode.\n${report.skipped.join('\n')}`, "warning", { timeout: 0 })
+      return
+    }
+    if (report.skipped.length > 0) {
+      console.warn("KOReader Sync: books not migrated:", report.skipped)
+      logseq.UI.showMsg(`KOReader Sync: migrated ${report.migrated.length} book(s). Left on the sync page:\n${report.skipped.join('\n')}`, "warning", { timeout: 0 })
+    } else {
+      logseq.UI.showMsg(`KOReader Sync: migrated ${report.migrated.length} book(s) to per-page mode.`, "success")
     }
+    logseq.App.pushState('page', { name: getBookSettings().indexPageName })
   })
+  if (!ran) {
+    logseq.UI.showMsg("KOReader Sync: a sync is already running.", "warning")
+  }
+}
+
+async function runExport(path: string, format: ExportFormat) {
+  const directoryHandle = await getDirectoryHandle({})
+  if (!directoryHandle) return
+
+  try {
+    if (!(await exportBookFile(directoryHandle, path, format))) {
+      logseq.UI.showMsg(`KOReader Sync: ${path} is not in the KOReader directory.`, "warning")
+    }
+  } catch (e) {
+    const errorDetails = e instanceof Error ? e.message : String(e)
+    await showErrorToUser("Failed to export the book.", `Export error: ${errorDetails}`)
+  }
+}
+
+/** Updates the reading progress of the books synced so far from the kosync server, without reading the KOReader directory. */
+async function runProgressSync() {
+  const ran = await withSyncLock(async () => {
+    const currentSettings = getBookSettings()
+    const state = await loadSyncState(currentSettings)
+    const books = [
+      ...Object.values(state.files).flatMap(file => file.book ? [file.book] : []),
+      ...state.kindle?.books ?? [],
+    ]
+
+    try {
+      state.kosync = await syncKosyncProgress(books, new Set(), currentSettings, state.kosync)
+      await saveSyncState(currentSettings, state)
+      logseq.UI.showMsg(`KOReader Sync: found the reading progress of ${Object.keys(state.kosync).length} book(s).`, "success")
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      await showErrorToUser("Failed to read progress from the kosync server.", `kosync error: ${errorDetails}`)
+    }
+  })
+  if (!ran) {
+    logseq.UI.showMsg("KOReader Sync: a sync is already running.", "warning")
+  }
+}
+
+async function runAutoSync() {
+  if (autoSyncInterval() !== null) {
+    await runSync({ silent: true })
+  }
+}
+
+/**
+ * main entry
+ * @param baseInfo
+ */
+function main () {
+  logseq.useSettingsSchema(settings)
+  logseq.onSettingsChanged(() => {
+    onSettingsChange()
+    scheduleAutoSync(runAutoSync)
+  })
+  // these koreader-* properties are bookkeeping for matching blocks across syncs, keep them out of sight
+  logseq.provideStyle(`
+    .block-properties > div:has([data-ref="koreader-book"]),
+    .block-properties > div:has([data-ref="koreader-id"]),
+    .block-properties > div:has([data-ref="koreader-section"]),
+    .block-properties > div:has([data-ref="koreader-journal"]),
+    .block-properties > div:has([data-ref="koreader-stats"]),
+    .block-properties > div:has([data-ref="koreader-vocab"]),
+    .block-properties > div:has([data-ref="koreader-listing"]),
+    .block-properties > div:has([data-ref="koreader-index"]),
+    .block-properties > div:has([data-ref="koreader-hash"]),
+    .block-properties > div:has([data-ref="koreader-conflict"]),
+    .block-properties > div:has([data-ref="koreader-created"]),
+    .block-properties > div:has([data-ref="koreader-log"]) {
+      display: none;
+    }
+  `)
+  logseq.provideModel({
+    async syncKOReader () {
+      await runSync({ dryRun: getBookSettings().previewBeforeSync })
+    },
+    async confirmSyncPlan () {
+      closeSyncPlan()
+      const options = pendingSync
+      pendingSync = null
+      if (options) {
+        await runSync(options)
+      }
+    },
+    cancelSyncPlan () {
+      closeSyncPlan()
+      pendingSync = null
+    },
+  })
+
+  registerCommands(runSync, runMigration, runExport, runProgressSync)
 
   logseq.App.registerUIItem('toolbar', {
     key: 'koreader-sync',
@@ -72,11 +229,18 @@ function main () {
       </a>
     `
   })
+
+  // automatic sync runs on graph load, then on the configured interval
+  scheduleAutoSync(runAutoSync)
+  logseq.App.onCurrentGraphChanged(() => {
+    runAutoSync().catch(console.error)
+  })
+  runAutoSync().catch(console.error)
 }
 
 // bootstrap
 logseq.ready(main).catch(console.error)
 
 export { getBookSettings } from './settings'
-export { normalizeAuthors, generatePageName, sanitizePageName, truncateString } from './utils'
-export { handle_annotations_metadata, handle_bookmarks_metadata, lua_to_block } from './metadata'
+export { normalizeAuthors, generatePageName, sanitizePageName, truncateString, hashString, md5Hex, formatJournalDate, formatDuration, renderTemplate, stripProperties } from './utils'
+export { handle_annotations_metadata, handle_bookmarks_metadata, lua_to_block, annotation_id, book_properties, book_series, render_highlight, book_key } from './metadata'
@@ -0,0 +1,144 @@
+import '@logseq/libs'
+import { IBatchBlock, PageEntity } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from './settings'
+import { insertBlockTree } from './block-tree'
+import { formatJournalDate, hashString } from './utils'
+
+/** A synced annotation block, as found by `findHighlights` */
+export interface JournalHighlight {
+  uuid: string
+  /** KOReader's `yyyy-MM-dd HH:mm:ss` timestamp of when the annotation was made */
+  datetime: string
+  /** Original name of the page the block is on */
+  page: string
+}
+
+/** Parses KOReader's local `yyyy-MM-dd HH:mm:ss` timestamps. */
+export function parseKOReaderDate(datetime: string): Date | null {
+  const match = datetime.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/)
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number)
+  return new Date(year, month - 1, day, hours || 0, minutes || 0, seconds || 0)
+}
+
+/** Turns a `yyyy-MM-dd` day key back into a local date. */
+export function dayDate(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date)
+}
+
+/** The journal page of `date`, named with the user's `preferredDateFormat`; created if it does not exist yet. */
+export async function getOrCreateJournalPage(date: Date, dateFormat: string): Promise<PageEntity> {
+  const pageName = formatJournalDate(date, dateFormat)
+  const page = await logseq.Editor.getPage(pageName)
+    ?? await logseq.Editor.createPage(pageName, {}, { journal: true, redirect: false })
+  return page!
+}
+
+/** Groups highlights by day and then by book page, each in the order they were made. */
+export function highlightsByDay(highlights: JournalHighlight[]): Record<string, Record<string, string[]>> {
+  const days: Record<string, Record<string, string[]>> = {}
+
+  for (const highlight of [...highlights].sort((a, b) => a.datetime.localeCompare(b.datetime))) {
+    const date = parseKOReaderDate(highlight.datetime)
+    if (!date) continue
+
+    const day = formatJournalDate(date, "yyyy-MM-dd")
+    days[day] = days[day] ?? {}
+    days[day][highlight.page] = days[day][highlight.page] ?? []
+    days[day][highlight.page].push(highlight.uuid)
+  }
+
+  return days
+}
+
+export function readTodayChildren(books: Record<string, string[]>): IBatchBlock[] {
+  return Object.entries(books).map(([page, uuids]) => ({
+    content: `[[${page}]]`,
+    children: uuids.map(uuid => ({ content: `((${uuid}))` })),
+  }))
+}
+
+/**
+ * Every synced, not archived annotation block with a date, on any page other than the single-page mode sync page.
+ * Blocks are dated by their `koreader-created` property; those synced before it existed by their `datetime`.
+ */
+async function findHighlights(settings: BookSettings): Promise<JournalHighlight[]> {
+  const rows: Array<[string, string, string, string, string]> = await logseq.DB.datascriptQuery(`
+    [
+        :find ?uuid ?datetime ?page ?status ?created
+        :where
+          [?b :block/properties ?props]
+          [(get ?props :koreader-id)]
+          [(get ?props :datetime) ?datetime]
+          [(get ?props :koreader-status "") ?status]
+          [(get ?props :koreader-created "") ?created]
+          [?b :block/uuid ?uuid]
+          [?b :block/page ?p]
+          [?p :block/original-name ?page]
+    ]
+  `) || []
+
+  return rows
+    .filter(([, , page, status]) => page !== settings.syncPageName && status !== "deleted")
+    .map(([uuid, datetime, page, , created]) => ({ uuid: String(uuid), datetime: String(created || datetime), page }))
+}
+
+async function findReadTodayBlock(pageUUID: string) {
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(pageUUID) || []
+  return pageBlocks.find(block => block.properties?.koreaderJournal === "highlights")
+}
+
+/**
+ * Keeps a "Read today" block on the journal page of every day highlights were made, referencing
+ * that day's highlights grouped by book. Only days whose highlights changed since `previous` are
+ * rewritten, unless `force` is set, and the block is removed from days that no longer have any.
+ *
+ * @returns hashes of the blocks written per `yyyy-MM-dd` day, to pass as `previous` next time
+ */
+export async function linkHighlightsInJournal(
+  settings: BookSettings,
+  previous: Record<string, string> = {},
+  force: boolean = false
+): Promise<Record<string, string>> {
+  const { preferredDateFormat } = await logseq.App.getUserConfigs()
+  const days = highlightsByDay(await findHighlights(settings))
+  const hashes: Record<string, string> = {}
+
+  for (const [day, books] of Object.entries(days)) {
+    const children = readTodayChildren(books)
+    hashes[day] = hashString(JSON.stringify(children))
+    if (!force && previous[day] === hashes[day]) continue
+
+    const page = await getOrCreateJournalPage(dayDate(day), preferredDateFormat)
+    let readToday = await findReadTodayBlock(page.uuid)
+    if (readToday) {
+      for (const child of readToday.children || []) {
+        await logseq.Editor.removeBlock(Array.isArray(child) ? child[1] : child.uuid)
+      }
+    } else {
+      readToday = (await logseq.Editor.appendBlockInPage(page.uuid, "Read today", {
+        properties: { 'koreader-journal': 'highlights' },
+      }))!
+    }
+
+    for (const child of children) {
+      await insertBlockTree(readToday.uuid, child)
+    }
+  }
+
+  for (const day of Object.keys(previous)) {
+    if (day in days) continue
+
+    const page = await logseq.Editor.getPage(formatJournalDate(dayDate(day), preferredDateFormat))
+    const readToday = page && await findReadTodayBlock(page.uuid)
+    if (readToday) {
+      await logseq.Editor.removeBlock(readToday.uuid)
+    }
+  }
+
+  return hashes
+}
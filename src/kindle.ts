@@ -0,0 +1,263 @@
+import '@logseq/libs'
+import { BookSettings } from './settings'
+import { BookInfo, bookInfo, createBookmarksSection, getOrCreateBookPage, refreshBookPageProperties } from './book-pages'
+import { findFile } from './filesystem'
+import { bookmarks_section_block, KOReaderAnnotation, KOReaderMetadata } from './metadata'
+import { KindleSyncState } from './sync-state'
+import { syncBookmarksToPage } from './sync/bookmarks'
+import { newSyncReport, SyncReport } from './sync/log'
+import { normalizeAuthors } from './utils'
+
+/** One entry of Kindle's `My Clippings.txt` */
+export interface KindleClipping {
+  title: string
+  authors?: string
+  type: "highlight" | "note" | "bookmark"
+  page?: number
+  /** First and last Kindle location; a single location for notes and bookmarks */
+  location?: [number, number]
+  /** Formatted like KOReader's `yyyy-MM-dd HH:mm:ss` timestamps */
+  datetime?: string
+  text: string
+}
+
+const CLIPPING_SEPARATOR = /^==========\s*$/m
+
+const CLIPPINGS_FILE = "My Clippings.txt"
+
+/**
+ * The `koreader-source` of a page created for a book only read on the Kindle, naming the book within
+ * the clippings file, so the book commands can find its annotations.
+ */
+export function kindleSource(title: string): string {
+  return `${CLIPPINGS_FILE}#${title}`
+}
+
+export function isKindleSource(source: string): boolean {
+  return source.startsWith(`${CLIPPINGS_FILE}#`)
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+/** Parses the "Added on" date of a clipping, e.g. `Monday, January 13, 2025 10:00:00 AM` or `Monday, 13 January 2025 10:00:00`. */
+function parseClippingDate(added: string): string | undefined {
+  const date = new Date(added.replace(/^\w+day,\s*/i, ''))
+  if (isNaN(date.getTime())) {
+    return undefined
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+/** Splits `Title (Author; Other Author)` into its title and authors. */
+function parseTitleLine(line: string): { title: string, authors?: string } {
+  const match = line.match(/^(.*?)\s*\(([^()]*)\)\s*$/)
+  if (!match) {
+    return { title: line.trim() }
+  }
+  return { title: match[1], authors: normalizeAuthors(match[2].split(/\s*;\s*/).join('\n')) }
+}
+
+/**
+ * Parses the contents of a `My Clippings.txt` file, as written by English-language Kindles.
+ * Entries in other languages, or that are otherwise unrecognised, are skipped.
+ */
+export function parseClippings(text: string): KindleClipping[] {
+  const clippings: KindleClipping[] = []
+
+  for (const entry of text.replace(/^﻿/, '').split(CLIPPING_SEPARATOR)) {
+    const lines = entry.replace(/\r/g, '').replace(/^﻿/, '').trim().split('\n')
+    if (lines.length < 2) continue
+
+    const details = lines[1]
+    const type = details.match(/Your (Highlight|Note|Bookmark)/i)?.[1].toLowerCase()
+    if (!type) continue
+
+    const page = details.match(/page (\d+)/i)?.[1]
+    const location = details.match(/location (\d+)(?:-(\d+))?/i)
+    const added = details.match(/Added on (.*)$/i)?.[1]
+
+    clippings.push({
+      ...parseTitleLine(lines[0].replace(/^﻿/, '')),
+      type: type as KindleClipping["type"],
+      page: page ? Number(page) : undefined,
+      location: location ? [Number(location[1]), Number(location[2] ?? location[1])] : undefined,
+      datetime: added ? parseClippingDate(added) : undefined,
+      text: lines.slice(2).join('\n').trim(),
+    })
+  }
+
+  return clippings
+}
+
+function bookKey(clipping: { title: string, authors?: string }): string {
+  return `${clipping.authors ?? ''}___${clipping.title}`
+}
+
+/**
+ * Groups clippings into one metadata structure per book. A note is attached to the highlight it was
+ * made on, which Kindle places at the highlight's last location; notes on no highlight stand alone.
+ * Kindle keeps the old entry when a highlight is changed, so only the latest one at a location is kept.
+ */
+export function clippingsToMetadata(clippings: KindleClipping[]): KOReaderMetadata[] {
+  const books = new Map<string, { title: string, authors?: string, clippings: KindleClipping[] }>()
+  for (const clipping of clippings) {
+    const key = bookKey(clipping)
+    const book = books.get(key) ?? { title: clipping.title, authors: clipping.authors, clippings: [] }
+    book.clippings.push(clipping)
+    books.set(key, book)
+  }
+
+  return [...books.values()].map(book => {
+    const highlights = new Map<number, KOReaderAnnotation>()
+    const annotations: KOReaderAnnotation[] = []
+    const notes: KindleClipping[] = []
+
+    for (const clipping of book.clippings) {
+      if (clipping.type === "note") {
+        notes.push(clipping)
+      } else if (clipping.type === "bookmark" || !clipping.location) {
+        annotations.push({ pageno: clipping.page, datetime: clipping.datetime })
+      } else {
+        const [start, end] = clipping.location
+        highlights.set(start, {
+          text: clipping.text,
+          pageno: clipping.page,
+          pos0: String(start),
+          pos1: String(end),
+          datetime: clipping.datetime,
+        })
+      }
+    }
+
+    for (const note of notes) {
+      const location = note.location?.[0]
+      const highlight = [...highlights.values()].find(candidate => Number(candidate.pos1) === location)
+      if (highlight && !highlight.note) {
+        highlight.note = note.text
+      } else {
+        annotations.push({
+          note: note.text,
+          pageno: note.page,
+          pos0: String(location ?? ''),
+          pos1: String(location ?? ''),
+          datetime: note.datetime,
+        })
+      }
+    }
+
+    annotations.push(...highlights.values())
+    annotations.sort((a, b) => (Number(a.pos0) || 0) - (Number(b.pos0) || 0))
+
+    return {
+      source: "kindle" as const,
+      doc_props: { title: book.title, authors: book.authors },
+      annotations,
+    }
+  })
+}
+
+function titleWords(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+function authorWords(authors: string | undefined): string {
+  return (authors ?? '').toLowerCase().match(/\p{L}+/gu)?.sort().join(' ') ?? ''
+}
+
+/**
+ * Finds the KOReader book a Kindle book is the same as, ignoring case and punctuation. Authors are
+ * compared as sets of words, since Kindle often lists them as `Last, First`; a book without authors
+ * matches on its title alone.
+ */
+export function matchBook(books: BookInfo[], metadata: KOReaderMetadata): BookInfo | undefined {
+  const title = titleWords(metadata.doc_props.title ?? '')
+  const authors = authorWords(metadata.doc_props.authors)
+
+  return books.find(book => titleWords(book.title) === title
+    && (!authors || !book.authors || authorWords(book.authors) === authors))
+}
+
+/**
+ * Whether every page created by the previous import still exists. Pages created before they recorded
+ * their `koreader-source` get it here.
+ */
+async function pagesExist(books: BookInfo[]): Promise<boolean> {
+  for (const book of books) {
+    const page = await logseq.Editor.getPage(book.pageUUID)
+    if (!page) {
+      return false
+    }
+    if (page.properties?.koreaderSource !== kindleSource(book.title)) {
+      await refreshBookPageProperties(page.uuid, { 'koreader-source': kindleSource(book.title) })
+    }
+  }
+  return true
+}
+
+/** The annotations of the Kindle-only book a `kindleSource` names, or null if the clippings file has none. */
+export async function readKindleBook(directoryHandle: any, source: string): Promise<KOReaderMetadata | null> {
+  const file = await findFile(directoryHandle, CLIPPINGS_FILE)
+  if (!file) {
+    return null
+  }
+
+  return clippingsToMetadata(parseClippings(await file.text()))
+    .find(metadata => kindleSource(metadata.doc_props.title ?? '') === source) ?? null
+}
+
+/**
+ * Syncs the annotations in Kindle's `My Clippings.txt` onto book pages. A book also read in KOReader,
+ * one of `books`, gets its Kindle annotations added to its existing page; other books get a page of
+ * their own. Does nothing if the file has not changed since `previous`. Pages created and updated,
+ * annotations and books that failed are added to `report`.
+ *
+ * @returns the new state, listing the pages created for Kindle-only books
+ */
+export async function importKindleClippings(
+  directoryHandle: any,
+  books: BookInfo[],
+  settings: BookSettings,
+  previous?: KindleSyncState,
+  report: SyncReport = newSyncReport()
+): Promise<KindleSyncState | undefined> {
+  const file = await findFile(directoryHandle, CLIPPINGS_FILE)
+  if (!file) {
+    console.warn("KOReader Sync: My Clippings.txt not found in the selected directory, skipping Kindle clippings.")
+    return previous
+  }
+
+  if (previous && previous.lastModified === file.lastModified && previous.size === file.size && await pagesExist(previous.books)) {
+    return previous
+  }
+
+  const kindleBooks: BookInfo[] = []
+  for (const metadata of clippingsToMetadata(parseClippings(await file.text()))) {
+    try {
+      const match = matchBook(books, metadata)
+      if (match) {
+        // the section heading is left as the KOReader sync renders it
+        await syncBookmarksToPage(metadata, match.pageUUID, '', settings, [], report)
+        continue
+      }
+
+      const { page, created } = await getOrCreateBookPage(metadata, settings, kindleSource(metadata.doc_props.title ?? ''))
+      const bookmarksUUID = await createBookmarksSection(page.uuid, bookmarks_section_block(metadata, settings))
+      await syncBookmarksToPage(metadata, page.uuid, bookmarksUUID, settings, [], report)
+      const book = bookInfo(metadata, page, settings)
+      kindleBooks.push(book)
+      if (created) {
+        report.created.push(book.title)
+      } else {
+        report.updated.push(book.title)
+      }
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      console.error(`Error syncing Kindle clippings of ${metadata.doc_props.title}:`, errorDetails)
+      report.errors.push({ source: kindleSource(metadata.doc_props.title ?? ''), message: errorDetails })
+    }
+  }
+
+  return { lastModified: file.lastModified, size: file.size, books: kindleBooks }
+}
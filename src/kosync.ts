@@ -0,0 +1,86 @@
+import '@logseq/libs'
+import { BookSettings } from './settings'
+import { BookInfo, refreshBookPageProperties } from './book-pages'
+import { formatJournalDate, md5Hex } from './utils'
+
+/** A document's reading position, as a kosync server returns it from `GET /syncs/progress/:document` */
+export interface KosyncProgress {
+  document: string
+  /** Fraction of the book read, from 0 to 1 */
+  percentage: number
+  /** KOReader's own position, such as an XPointer */
+  progress: string
+  device: string
+  device_id?: string
+  /** Unix time in seconds */
+  timestamp: number
+}
+
+/**
+ * Fetches the last reading position pushed for a document, keyed by KOReader's partial MD5.
+ * Returns null if the server has none.
+ */
+export async function fetchProgress(settings: BookSettings, document: string): Promise<KosyncProgress | null> {
+  const response = await fetch(`${settings.kosyncServer.replace(/\/+$/, '')}/syncs/progress/${document}`, {
+    headers: {
+      'Accept': 'application/vnd.koreader.v1+json',
+      'x-auth-user': settings.kosyncUsername,
+      // kosync never sees the password itself, only its MD5
+      'x-auth-key': md5Hex(settings.kosyncPassword),
+    },
+  })
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`kosync server rejected the credentials of ${settings.kosyncUsername}`)
+  }
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`kosync server answered ${response.status} ${response.statusText}`)
+  }
+
+  const progress = await response.json() as Partial<KosyncProgress>
+  return typeof progress.percentage === 'number' && typeof progress.timestamp === 'number' ? progress as KosyncProgress : null
+}
+
+export function progressProperties(progress: KosyncProgress, dateFormat: string): Record<string, string> {
+  return {
+    'progress': `${Math.round(progress.percentage * 100)}%`,
+    'device': progress.device,
+    'last-read': `[[${formatJournalDate(new Date(progress.timestamp * 1000), dateFormat)}]]`,
+  }
+}
+
+/**
+ * Writes the reading position each book last pushed to the kosync server onto its page, as its
+ * `progress`, `device` and `last-read` properties. Only books with a partial MD5 can be looked up.
+ * A book is only written when its position changed since `previous`, or its page is one of `freshPages`.
+ *
+ * @param previous timestamp of the position last written for each document
+ * @param freshPages UUIDs of the book pages written by this sync
+ * @returns the new timestamps
+ */
+export async function syncKosyncProgress(
+  books: BookInfo[],
+  freshPages: Set<string>,
+  settings: BookSettings,
+  previous: Record<string, number> = {}
+): Promise<Record<string, number>> {
+  const { preferredDateFormat } = await logseq.App.getUserConfigs()
+  const timestamps: Record<string, number> = {}
+
+  for (const book of books) {
+    if (!book.md5) continue
+
+    const progress = await fetchProgress(settings, book.md5)
+    if (!progress) continue
+
+    timestamps[book.md5] = progress.timestamp
+    if (previous[book.md5] !== progress.timestamp || freshPages.has(book.pageUUID)) {
+      await refreshBookPageProperties(book.pageUUID, progressProperties(progress, preferredDateFormat))
+    }
+  }
+
+  return timestamps
+}
@@ -0,0 +1,214 @@
+import { parse as luaparse } from 'luaparse'
+
+export type LuaValue = string | number | boolean | null | LuaValue[] | LuaTable
+
+export interface LuaTable {
+  [key: string]: LuaValue
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  'a': '\x07',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+  'v': '\v',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '\n': '\n',
+}
+
+/** Decodes the raw source of a Lua string literal (quoted or long-bracket) into a JS string. */
+export function decodeLuaString(raw: string): string {
+  const longBracket = raw.match(/^\[(=*)\[\n?([\s\S]*)\]\1\]$/)
+  if (longBracket) {
+    return longBracket[2]
+  }
+
+  const body = raw.slice(1, -1)
+  const decoder = new TextDecoder()
+  let result = ''
+  let bytes: number[] = []
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      result += decoder.decode(new Uint8Array(bytes))
+      bytes = []
+    }
+  }
+
+  let i = 0
+  while (i < body.length) {
+    const char = body[i]
+    if (char !== '\\') {
+      flushBytes()
+      result += char
+      i += 1
+      continue
+    }
+
+    const next = body[i + 1]
+    if (next in SIMPLE_ESCAPES) {
+      flushBytes()
+      result += SIMPLE_ESCAPES[next]
+      i += 2
+    } else if (next === '\r') {
+      flushBytes()
+      result += '\n'
+      i += body[i + 2] === '\n' ? 3 : 2
+    } else if (next === 'x') {
+      bytes.push(parseInt(body.substr(i + 2, 2), 16))
+      i += 4
+    } else if (next === 'z') {
+      i += 2
+      while (i < body.length && /\s/.test(body[i])) i += 1
+    } else if (next === 'u') {
+      flushBytes()
+      const end = body.indexOf('}', i)
+      result += String.fromCodePoint(parseInt(body.slice(i + 3, end), 16))
+      i = end + 1
+    } else if (/\d/.test(next)) {
+      const digits = body.slice(i + 1).match(/^\d{1,3}/)![0]
+      bytes.push(parseInt(digits, 10))
+      i += 1 + digits.length
+    } else {
+      flushBytes()
+      result += next ?? ''
+      i += 2
+    }
+  }
+  flushBytes()
+
+  return result
+}
+
+function luaKeyToJs(field: any): string | number {
+  if (field.type === 'TableKeyString') {
+    return field.key.name
+  }
+  const key = luaValueToJs(field.key)
+  return typeof key === 'number' ? key : String(key)
+}
+
+/**
+ * Converts a luaparse expression node into a plain JS value. Tables whose keys are
+ * the consecutive integers 1..n become arrays, every other table becomes an object.
+ * Lua cannot tell an empty array from an empty dictionary, so empty tables become `{}`.
+ */
+export function luaValueToJs(node: any): LuaValue {
+  switch (node.type) {
+    case 'StringLiteral':
+      return decodeLuaString(node.raw)
+    case 'NumericLiteral':
+    case 'BooleanLiteral':
+      return node.value
+    case 'NilLiteral':
+      return null
+    case 'UnaryExpression': {
+      const argument = luaValueToJs(node.argument)
+      if (node.operator === '-' && typeof argument === 'number') return -argument
+      if (node.operator === 'not') return !argument
+      throw new Error(`Unsupported Lua unary operator: ${node.operator}`)
+    }
+    case 'TableConstructorExpression':
+      return luaTableToJs(node.fields)
+    default:
+      throw new Error(`Unsupported Lua expression: ${node.type}`)
+  }
+}
+
+function luaTableToJs(fields: any[]): LuaValue[] | LuaTable {
+  const entries: [string | number, LuaValue][] = []
+  let position = 1
+  for (const field of fields) {
+    if (field.type === 'TableValue') {
+      entries.push([position, luaValueToJs(field.value)])
+      position += 1
+    } else {
+      entries.push([luaKeyToJs(field), luaValueToJs(field.value)])
+    }
+  }
+
+  const keys = entries.map(([key]) => key)
+  const isArray = keys.length > 0
+    && keys.every(key => typeof key === 'number')
+    && (keys as number[]).sort((a, b) => a - b).every((key, index) => key === index + 1)
+
+  if (isArray) {
+    const array: LuaValue[] = []
+    for (const [key, value] of entries) {
+      array[(key as number) - 1] = value
+    }
+    return array
+  }
+
+  const table: LuaTable = {}
+  for (const [key, value] of entries) {
+    table[String(key)] = value
+  }
+  return table
+}
+
+/** Parses a Lua chunk of the form `return { ... }`, as written by KOReader, into a JS value. */
+export function parseLuaTable(text: string): LuaValue {
+  const ast = luaparse(text, {
+    comments: false,
+    locations: false,
+    ranges: false,
+    luaVersion: 'LuaJIT'
+  })
+
+  const statement = (ast.body as any[]).find(node => node.type === 'ReturnStatement')
+  if (!statement || statement.arguments.length === 0) {
+    throw new Error('Lua file does not return a value')
+  }
+
+  return luaValueToJs(statement.arguments[0])
+}
+
+/** Encodes a JS string as a double-quoted Lua string literal; control characters are written as decimal byte escapes. */
+export function encodeLuaString(value: string): string {
+  return `"${value.replace(/[\\"\x00-\x1f\x7f]/g, char => {
+    if (char === '\\' || char === '"') return `\\${char}`
+    if (char === '\n') return '\\n'
+    return `\\${String(char.charCodeAt(0)).padStart(3, '0')}`
+  })}"`
+}
+
+/** Objects keep integer keys, such as the timestamps of `performance_in_pages`, as strings; they go back to Lua as numbers. */
+function luaKey(key: string): string {
+  return key !== '' && String(Number(key)) === key ? `[${key}]` : `[${encodeLuaString(key)}]`
+}
+
+function serializeLuaValue(value: LuaValue, indent: string): string {
+  if (value === null) {
+    return 'nil'
+  }
+  if (typeof value === 'string') {
+    return encodeLuaString(value)
+  }
+  if (typeof value !== 'object') {
+    return String(value)
+  }
+
+  const entries: [string, LuaValue][] = Array.isArray(value)
+    ? value.map((item, index) => [String(index + 1), item])
+    : Object.entries(value)
+  if (entries.length === 0) {
+    return '{}'
+  }
+
+  const inner = `${indent}    `
+  const fields = entries.map(([key, item]) => `${inner}${luaKey(key)} = ${serializeLuaValue(item, inner)},\n`)
+  return `{\n${fields.join('')}${indent}}`
+}
+
+/**
+ * Writes a value back as a Lua chunk laid out the way KOReader writes its sidecar files: `return { ... }`
+ * with one field per line and an explicit key for every array item. `parseLuaTable` reads it back unchanged.
+ */
+export function serializeLuaTable(value: LuaValue): string {
+  return `return ${serializeLuaValue(value, '')}\n`
+}
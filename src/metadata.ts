@@ -1,32 +1,304 @@
 import '@logseq/libs'
 import { IBatchBlock } from '@logseq/libs/dist/LSPlugin'
-import { parse as luaparse } from 'luaparse'
 import { BookSettings, getBookSettings } from './settings'
-import { normalizeAuthors, truncateString } from './utils'
+import { hashString, normalizeAuthors, renderTemplate, sanitizePageName, stripProperties, TemplateValues, truncateString } from './utils'
+import { parseLuaTable } from './lua'
+import { formatBlock, formatBlockTree } from './format'
 
-function createSimpleBookHeader(metadata: any, settings: BookSettings): IBatchBlock {
+export interface KOReaderDocProps {
+  title?: string
+  authors?: string
+  description?: string
+  language?: string
+  keywords?: string
+  series?: string
+  series_index?: number
+  identifiers?: string
+  pages?: number
+}
+
+/** A highlight, note or page bookmark, as stored by KOReader 2024.07 and later. */
+export interface KOReaderAnnotation {
+  chapter?: string
+  color?: string
+  datetime?: string
+  datetime_updated?: string
+  drawer?: string
+  note?: string
+  page?: number | string
+  pageno?: number
+  pos0?: string
+  pos1?: string
+  text?: string
+}
+
+/** A bookmark entry from the legacy (pre-2024.07) `bookmarks` table. */
+export interface KOReaderBookmark {
+  chapter?: string
+  datetime?: string
+  highlighted?: boolean
+  notes?: string
+  page?: number | string
+  pos0?: string
+  pos1?: string
+  text?: string
+}
+
+export interface KOReaderSummary {
+  status?: string
+  rating?: number
+  note?: string
+  modified?: string
+}
+
+export interface KOReaderStats {
+  title?: string
+  authors?: string
+  language?: string
+  series?: string
+  pages?: number
+  highlights?: number
+  notes?: string | number
+  performance_in_pages?: Record<string, number>
+}
+
+/** Where a book's annotations were read from; stored on every annotation block as its `source` property */
+export type AnnotationSource = "koreader" | "kindle"
+
+/**
+ * The parsed contents of a KOReader `metadata.*.lua` sidecar file. Other sources, such as Kindle's
+ * `My Clippings.txt`, are read into the same structure and set `source`.
+ */
+export interface KOReaderMetadata {
+  /** Defaults to `koreader` */
+  source?: AnnotationSource
+  doc_props: KOReaderDocProps
+  annotations?: KOReaderAnnotation[]
+  bookmarks?: KOReaderBookmark[]
+  summary?: KOReaderSummary
+  stats?: KOReaderStats
+  percent_finished?: number
+  partial_md5_checksum?: string
+  doc_path?: string
+  doc_pages?: number
+}
+
+/**
+ * Builds the stable identity stored in the `koreader-id` property of every synced bookmark block,
+ * from the document, the highlight's positions and its creation `datetime`, which survive edits to
+ * its note and colour. Entries that carry no timestamp fall back to their page.
+ * Annotations from other sources are kept apart by prefixing the source.
+ */
+export function annotation_id(metadata: KOReaderMetadata, annotation: KOReaderAnnotation | KOReaderBookmark): string {
+  const source = metadata.source && metadata.source !== "koreader" ? `${metadata.source}|` : ''
+  const document = metadata.partial_md5_checksum ?? metadata.doc_props.title ?? ''
+  const position = `${annotation.pos0 ?? ''}|${annotation.pos1 ?? ''}|${annotation.datetime ?? annotation.page ?? ''}`
+  return hashString(`${source}${document}|${position}`)
+}
+
+/**
+ * Identifies a book block on the single sync page, stored in its `koreader-book` property so the block
+ * is still found after the header template changes. Blocks synced before that property existed are
+ * keyed by the title in their `## ` heading instead.
+ */
+export function book_key(title: string | undefined, authors: string | undefined): string {
+  return hashString(`${authors ?? ''}___${title}`)
+}
+
+/** The key of a book block already in the graph, or null if it is not one. */
+export function existing_book_key(content: string, properties: Record<string, unknown> | undefined): string | null {
+  if (properties?.koreaderBook) {
+    return String(properties.koreaderBook)
+  }
+
+  const title = content.match(/^##\s+(.*)/)?.[1]
+  return title === undefined ? null : book_key(title, properties?.authors as string | undefined)
+}
+
+function book_template_values(metadata: KOReaderMetadata): TemplateValues {
   return {
-    content: `## ${metadata.doc_props.title}`,
+    title: metadata.doc_props.title,
+    authors: normalizeAuthors(metadata.doc_props.authors),
+  }
+}
+
+/**
+ * The heading block a book's annotations are synced under, from the `sectionHeadingTemplate` setting.
+ * Marked with `koreader-section` so it is still found after the template changes.
+ */
+export function bookmarks_section_block(metadata: KOReaderMetadata, settings: BookSettings): IBatchBlock {
+  return formatBlock({
+    content: renderTemplate(settings.sectionHeadingTemplate, book_template_values(metadata)),
     properties: {
-      'authors': normalizeAuthors(metadata.doc_props.authors),
-      'description': truncateString(metadata.doc_props.description, settings.maxDescriptionLength),
-      'language': metadata.doc_props.language,
+      'koreader-section': 'bookmarks',
+    },
+  }, settings.format)
+}
+
+/** Properties describing a book as a whole, shared by single-page book blocks and per-book pages. */
+export interface BookProperties {
+  authors?: string
+  description: string
+  language?: string
+  status?: string
+  rating?: number
+  progress?: string
+  review?: string
+}
+
+export function book_properties(metadata: KOReaderMetadata, settings: BookSettings): BookProperties {
+  const summary = metadata.summary || {}
+
+  return {
+    'authors': normalizeAuthors(metadata.doc_props.authors),
+    'description': truncateString(metadata.doc_props.description, settings.maxDescriptionLength),
+    'language': metadata.doc_props.language,
+    'status': summary.status,
+    'rating': summary.rating || undefined,
+    'progress': typeof metadata.percent_finished === 'number' ? `${Math.round(metadata.percent_finished * 100)}%` : undefined,
+    'review': summary.note ? summary.note.replace(/\s*\n\s*/g, ' ') : undefined,
+  }
+}
+
+/** How many highlights and notes a book has, and the day of the latest change to one, as `yyyy-MM-dd`. */
+export function annotation_stats(metadata: KOReaderMetadata): { highlights: number, notes: number, lastAnnotated?: string } {
+  let highlights = 0
+  let notes = 0
+  let latest = ''
+
+  if (metadata.annotations) {
+    for (const annotation of metadata.annotations) {
+      if (annotation.pos0) highlights += 1
+      if (annotation.note) notes += 1
+      const datetime = annotation.datetime_updated ?? annotation.datetime ?? ''
+      if (datetime > latest) latest = datetime
     }
+  } else {
+    // legacy entries keep the user's note in `text`
+    for (const bookmark of metadata.bookmarks || []) {
+      if (bookmark.highlighted) highlights += 1
+      if (bookmark.highlighted && bookmark.text) notes += 1
+      if ((bookmark.datetime ?? '') > latest) latest = bookmark.datetime!
+    }
+  }
+
+  return { highlights, notes, lastAnnotated: latest.substring(0, 10) || undefined }
+}
+
+/** A book's series and its place in it. Older KOReader versions leave the index in the name, as in `Dune #2`. */
+export function book_series(metadata: KOReaderMetadata): { series?: string, seriesIndex?: number } {
+  const series = metadata.doc_props.series?.trim()
+  if (!series) {
+    return {}
+  }
+
+  const numbered = series.match(/^(.*?)\s*#(\d+(?:\.\d+)?)$/)
+  if (numbered && metadata.doc_props.series_index === undefined) {
+    return { series: numbered[1], seriesIndex: Number(numbered[2]) }
+  }
+  return { series, seriesIndex: metadata.doc_props.series_index }
+}
+
+/** The `series::` link and `series-index::` of a book page, so it is listed on its series page. */
+export function series_properties(metadata: KOReaderMetadata): Record<string, string | number | undefined> {
+  const { series, seriesIndex } = book_series(metadata)
+  return {
+    'series': series ? `[[${sanitizePageName(series)}]]` : undefined,
+    'series-index': seriesIndex,
+  }
+}
+
+/** KOReader offers more highlight colours than Logseq, so the extra ones are folded into their nearest neighbour. */
+const LOGSEQ_HIGHLIGHT_COLORS: Record<string, string> = {
+  'yellow': 'yellow',
+  'orange': 'yellow',
+  'red': 'red',
+  'green': 'green',
+  'olive': 'green',
+  'blue': 'blue',
+  'cyan': 'blue',
+  'purple': 'purple',
+  'gray': 'gray',
+}
+
+/** Decorates highlighted text according to the `highlightStyle` setting, in the markup of the graph's format. */
+function style_highlight(text: string, annotation: KOReaderAnnotation, settings: BookSettings): string {
+  const escaped = text.replace('-', '\\-')
+  const color = annotation.color?.toLowerCase()
+
+  if (settings.highlightStyle === "highlight") {
+    const org = settings.format === "org"
+    if (annotation.drawer === "strikeout") {
+      return org ? `+${escaped}+` : `~~${escaped}~~`
+    }
+    const marked = org ? `^^${escaped}^^` : `==${escaped}==`
+    const logseqColor = color ? LOGSEQ_HIGHLIGHT_COLORS[color] : undefined
+    return logseqColor ? `[[$${logseqColor}]]${marked}` : marked
+  }
+
+  if (settings.highlightStyle === "tag" && color) {
+    return `${escaped} #highlight-${color}`
   }
+
+  return escaped
 }
 
-function createBookBlock(metadata: any, settings: BookSettings, bookmarks: IBatchBlock[]): IBatchBlock {
+/**
+ * Renders the content of a highlight block through the `highlightTemplate` setting, with the text
+ * decorated according to the `highlightStyle` setting and `values` filling the other placeholders.
+ */
+export function render_highlight(text: string, annotation: KOReaderAnnotation, settings: BookSettings, values: TemplateValues = {}): string {
+  return renderTemplate(settings.highlightTemplate, { ...values, text: style_highlight(text, annotation, settings) })
+}
+
+/** Hash of a block's content without its property lines, recorded in `koreader-hash` when the sync writes the block. */
+export function content_hash(content: string): string {
+  return hashString(stripProperties(content))
+}
+
+/** Records on an annotation block and its note what was written, so a later sync can tell edits made in Logseq apart. */
+function with_content_hash(block: IBatchBlock): IBatchBlock {
   return {
-    content: `## ${metadata.doc_props.title}`,
+    ...block,
+    properties: { ...block.properties, 'koreader-hash': content_hash(block.content) },
+    ...(block.children ? { children: block.children.map(with_content_hash) } : {}),
+  }
+}
+
+/** The note block of an annotation, unless it has no note or the `noteTemplate` setting renders it empty. */
+function note_blocks(values: TemplateValues, settings: BookSettings): IBatchBlock[] {
+  if (!values.note) {
+    return []
+  }
+
+  const content = renderTemplate(settings.noteTemplate, values)
+  return content.trim() ? [{ content }] : []
+}
+
+function createSimpleBookHeader(metadata: KOReaderMetadata, settings: BookSettings): IBatchBlock {
+  const properties = book_properties(metadata, settings)
+
+  return formatBlock({
+    content: renderTemplate(settings.pageHeaderTemplate, book_template_values(metadata)),
     properties: {
-      'authors': normalizeAuthors(metadata.doc_props.authors),
-      'description': truncateString(metadata.doc_props.description, settings.maxDescriptionLength),
-      'language': metadata.doc_props.language,
+      ...properties,
+      'koreader-book': book_key(metadata.doc_props.title, properties.authors),
+    },
+  }, settings.format)
+}
+
+function createBookBlock(metadata: KOReaderMetadata, settings: BookSettings, bookmarks: IBatchBlock[]): IBatchBlock {
+  const header = createSimpleBookHeader(metadata, settings)
+
+  return {
+    content: header.content,
+    properties: {
+      ...header.properties,
       'collapsed': settings.collapseBookmarks,
     },
     children: [
       {
-        content: `### Bookmarks`,
+        ...bookmarks_section_block(metadata, settings),
         children: bookmarks
       }
     ]
@@ -34,7 +306,7 @@ function createBookBlock(metadata: any, settings: BookSettings, bookmarks: IBatc
 }
 
 /** This function is responsible for converting a KOReader metadata data structure into a Logseq block. */
-function metadata_to_block(metadata: any): IBatchBlock | null {
+function metadata_to_block(metadata: KOReaderMetadata): IBatchBlock | null {
   if (typeof metadata.doc_props === 'object' && Object.keys(metadata.doc_props).length === 0) {
     return null
   }
@@ -45,153 +317,158 @@ function metadata_to_block(metadata: any): IBatchBlock | null {
   return handle_annotations_metadata(metadata)
 }
 
-export function handle_annotations_metadata(metadata: any): IBatchBlock | null {
-  if (typeof metadata.doc_props === 'object' && Object.keys(metadata.doc_props).length === 0) {
-    return null
-  }
+function annotation_blocks(metadata: KOReaderMetadata, settings: BookSettings): IBatchBlock[] {
+  const bookmarks: IBatchBlock[] = []
 
-  if (typeof metadata.annotations === 'object' && Object.keys(metadata.annotations).length === 0) {
-    return null
-  }
-
-  const settings = getBookSettings()
-  let bookmarks: IBatchBlock[] = []
-
-  if (!metadata.annotations) {
-    return createSimpleBookHeader(metadata, settings)
-  }
+  for (const annotation of metadata.annotations || []) {
+    let annotation_date: string | undefined = annotation.datetime
+    if (annotation.datetime_updated) {
+      annotation_date = annotation.datetime_updated
+    }
 
-  for (const annotation of metadata.annotations) {
-    let personal_note: IBatchBlock[] = []
-    if (annotation.note) {
-      personal_note.push({
-        content: annotation.note.replace('-', '\\-'),
-      })
+    const values: TemplateValues = {
+      ...book_template_values(metadata),
+      note: annotation.note?.replace('-', '\\-'),
+      page: annotation.pageno,
+      chapter: annotation.chapter,
+      color: annotation.color,
+      date: annotation_date,
     }
+    const personal_note = note_blocks(values, settings)
 
-    let text_content: string = "> (no text available)"
+    let text_content: string = renderTemplate(settings.highlightTemplate, { ...values, text: "(no text available)" })
     const isPageBookmark = !annotation.pos0
     if (isPageBookmark) {
       if (!settings.syncPageBookmarks) {
         continue
       }
-      text_content = "> Page bookmark"
+      text_content = renderTemplate(settings.highlightTemplate, { ...values, text: "Page bookmark" })
     } else if (annotation.text) {
-      text_content = `> ${annotation.text.replace('-', '\\-')}`
+      text_content = render_highlight(annotation.text, annotation, settings, values)
     }
 
-    let annotation_date: string = annotation.datetime
-    if (annotation.datetime_updated) {
-      annotation_date = annotation.datetime_updated
+    const bookmark: IBatchBlock = {
+      content: text_content,
+      properties: {
+        'koreader-id': annotation_id(metadata, annotation),
+        'source': metadata.source ?? "koreader",
+        'datetime': annotation_date,
+        // `datetime` shows when the annotation was last edited; the journal needs the day it was made
+        'koreader-created': annotation.datetime,
+        'page': annotation.pageno,
+        'chapter': annotation.chapter,
+        'color': annotation.color,
+        'drawer': annotation.drawer,
+        'collapsed': settings.collapseBookmarks && personal_note.length > 0,
+      },
+      children: personal_note
     }
+    bookmarks.push(with_content_hash(formatBlockTree(bookmark, settings.format)))
+  }
 
-    bookmarks.push(
-      {
-        content: text_content,
-        properties: {
-          'datetime': annotation_date,
-          'page': annotation.pageno,
-          'chapter': annotation.chapter,
-          'collapsed': settings.collapseBookmarks && personal_note.length > 0,
-        },
-        children: personal_note
-      }
-    )
+  return bookmarks
+}
+
+function bookmark_blocks(metadata: KOReaderMetadata, settings: BookSettings): IBatchBlock[] {
+  const bookmarks: IBatchBlock[] = []
+
+  for (const bookmark of metadata.bookmarks || []) {
+    const values: TemplateValues = {
+      ...book_template_values(metadata),
+      text: (bookmark.notes ?? '').replace('-', '\\-'),
+      note: bookmark.text,
+      page: bookmark.page,
+      chapter: bookmark.chapter,
+      date: bookmark.datetime,
+    }
+    const personal_note = note_blocks(values, settings)
+
+    const block: IBatchBlock = {
+      content: renderTemplate(settings.highlightTemplate, values),
+      properties: {
+        'koreader-id': annotation_id(metadata, bookmark),
+        'source': metadata.source ?? "koreader",
+        'datetime': bookmark.datetime,
+        'page': bookmark.page,
+        'chapter': bookmark.chapter,
+        'collapsed': settings.collapseBookmarks && personal_note.length > 0,
+      },
+      children: personal_note
+    }
+    bookmarks.push(with_content_hash(formatBlockTree(block, settings.format)))
+  }
+
+  return bookmarks
+}
+
+/** Builds the block for every annotation of a book, from the modern `annotations` table or the legacy `bookmarks` one. */
+export function metadata_to_bookmark_blocks(metadata: KOReaderMetadata, settings: BookSettings): IBatchBlock[] {
+  if (!metadata.annotations) {
+    return bookmark_blocks(metadata, settings)
   }
+  return annotation_blocks(metadata, settings)
+}
 
-  return createBookBlock(metadata, settings, bookmarks)
+/** The content of each annotation's note block without property lines, keyed by `koreader-id`; annotations without one are left out. */
+export function annotation_notes(metadata: KOReaderMetadata, settings: BookSettings): Record<string, string> {
+  return Object.fromEntries(metadata_to_bookmark_blocks(metadata, settings)
+    .filter(block => block.children?.length)
+    .map(block => [String(block.properties!['koreader-id']), stripProperties(block.children![0].content)]))
 }
 
-export function handle_bookmarks_metadata(metadata: any): IBatchBlock | null {
+export function handle_annotations_metadata(metadata: KOReaderMetadata): IBatchBlock | null {
   if (typeof metadata.doc_props === 'object' && Object.keys(metadata.doc_props).length === 0) {
     return null
   }
 
-  if (typeof metadata.bookmarks === 'object' && Object.keys(metadata.bookmarks).length === 0) {
+  if (typeof metadata.annotations === 'object' && Object.keys(metadata.annotations).length === 0) {
     return null
   }
 
   const settings = getBookSettings()
-  let bookmarks: IBatchBlock[] = []
 
-  if (!metadata.bookmarks) {
+  if (!metadata.annotations) {
     return createSimpleBookHeader(metadata, settings)
   }
 
-  for (const bookmark of metadata.bookmarks) {
-    let personal_note: IBatchBlock[] = []
-    if (bookmark.text) {
-      personal_note.push({
-        content: bookmark.text,
-      })
-    }
+  return createBookBlock(metadata, settings, annotation_blocks(metadata, settings))
+}
 
-    bookmarks.push(
-      {
-        content: `> ${bookmark.notes.replace('-', '\\-')}`,
-        properties: {
-          'datetime': bookmark.datetime,
-          'page': bookmark.page,
-          'chapter': bookmark.chapter,
-          'collapsed': settings.collapseBookmarks && personal_note.length > 0,
-        },
-        children: personal_note
-      }
-    )
+export function handle_bookmarks_metadata(metadata: KOReaderMetadata): IBatchBlock | null {
+  if (typeof metadata.doc_props === 'object' && Object.keys(metadata.doc_props).length === 0) {
+    return null
+  }
+
+  if (typeof metadata.bookmarks === 'object' && Object.keys(metadata.bookmarks).length === 0) {
+    return null
   }
 
-  return createBookBlock(metadata, settings, bookmarks)
+  const settings = getBookSettings()
+
+  if (!metadata.bookmarks) {
+    return createSimpleBookHeader(metadata, settings)
+  }
+
+  return createBookBlock(metadata, settings, bookmark_blocks(metadata, settings))
 }
 
 export interface ParsedBook {
   block: IBatchBlock | null
-  metadata: any
+  metadata: KOReaderMetadata
 }
 
-/** Uses luaparse to read a lua file and builds a metadata data structure to pass off to `metadata_to_block` */
+/** Parses the text of a lua metadata file into a `KOReaderMetadata` structure and passes it off to `metadata_to_block` */
 export function lua_to_block(text: string): ParsedBook {
-  const ast = luaparse(text, {
-    comments: false,
-    locations: false,
-    ranges: false,
-    luaVersion: 'LuaJIT'
-  })
-
-  const metadata = {}
-
-  for (const field in (ast.body[0] as any).arguments[0].fields) {
-    const target = (ast.body[0] as any).arguments[0].fields[field]
-    const key = target.key.raw.replace(/"/g, '')
-
-    if (key === "stats") {
-      continue
-    }
-
-    if (target.value.type === "TableConstructorExpression") {
-      if (target.value.fields[0] && target.value.fields[0].value.type === "TableConstructorExpression") {
-        metadata[key] = []
-      } else {
-        metadata[key] = {}
-      }
-
-      for (const subfield in target.value.fields) {
-        const subtarget = target.value.fields[subfield]
-        if (subtarget.value.type === "TableConstructorExpression") {
-          const sub_dictionary = {}
-
-          for (const subsubfield in subtarget.value.fields) {
-            const subsubtarget = subtarget.value.fields[subsubfield]
-            const subkey = subsubtarget.key.raw.replace(/"/g, '')
-            sub_dictionary[subkey] = subsubtarget.value.raw?.replace(/"/g, '')
-          }
-          metadata[key].push(sub_dictionary)
-        } else {
-          metadata[key][subtarget.key.raw.replace(/"/g, '')] = subtarget.value.raw?.replace(/"/g, '')
-        }
-      }
-    } else {
-      metadata[key] = target.value.raw?.replace(/"/g, '')
-    }
+  const metadata = parseLuaTable(text) as unknown as KOReaderMetadata
+  if (!metadata.doc_props) {
+    metadata.doc_props = {}
+  }
+  // KOReader leaves an empty table behind once every highlight is removed, which reads as an object
+  if (metadata.annotations && !Array.isArray(metadata.annotations)) {
+    metadata.annotations = Object.values(metadata.annotations)
+  }
+  if (metadata.bookmarks && !Array.isArray(metadata.bookmarks)) {
+    metadata.bookmarks = Object.values(metadata.bookmarks)
   }
 
   const block = metadata_to_block(metadata)
@@ -0,0 +1,111 @@
+import '@logseq/libs'
+import { BlockEntity } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings, getBookSettings } from './settings'
+import { getMetadataFiles } from './filesystem'
+import { existing_book_key, KOReaderMetadata, lua_to_block } from './metadata'
+import { childUUIDs, hasInboundReferences, moveBlockToPage } from './block-tree'
+import { BookInfo, bookInfo, getOrCreateBookPage, isBookmarksSection } from './book-pages'
+import { updateIndexPage } from './index-page'
+import { stripProperties } from './utils'
+
+export interface MigrationReport {
+  migrated: BookInfo[]
+  /** Titles of the books left on the sync page, with the reason */
+  skipped: string[]
+}
+
+interface SourceBook {
+  metadata: KOReaderMetadata
+  path: string
+}
+
+/** Indexes the metadata files by the same `koreader-book` key `syncSinglePageMode` uses for its book blocks. */
+async function sourceBooks(directoryHandle: any): Promise<Map<string, SourceBook>> {
+  const books = new Map<string, SourceBook>()
+
+  for (const { path, file } of await getMetadataFiles(directoryHandle)) {
+    try {
+      const { metadata, block } = lua_to_block(await file.text())
+      if (!block) continue
+
+      books.set(String(block.properties?.['koreader-book']), { metadata, path })
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      console.error(`Error reading ${file.name}:`, errorDetails)
+    }
+  }
+
+  return books
+}
+
+/**
+ * Moves one book block and its children onto the book's own page. Its children become top-level
+ * blocks, so per-page sync finds the bookmarks section; the title block itself is only kept if
+ * something refers to it.
+ */
+async function migrateBook(bookBlock: BlockEntity, source: SourceBook, settings: BookSettings): Promise<BookInfo | string> {
+  const { page } = await getOrCreateBookPage(source.metadata, settings, source.path)
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(page.uuid) || []
+  if (pageBlocks.some(isBookmarksSection)) {
+    return "its book page already has bookmarks"
+  }
+
+  await moveBlockToPage(bookBlock.uuid, page.uuid)
+  for (const child of childUUIDs(bookBlock.children).reverse()) {
+    await logseq.Editor.moveBlock(child, bookBlock.uuid, { before: false })
+  }
+  if (!(await hasInboundReferences(bookBlock.uuid))) {
+    await logseq.Editor.removeBlock(bookBlock.uuid)
+  }
+
+  return bookInfo(source.metadata, page, settings)
+}
+
+/**
+ * Moves every book from the single sync page onto its own page, as per-page mode would have created it,
+ * and switches the plugin to per-page mode once at least one book was moved. Blocks are moved rather than recreated, so references into
+ * the sync page keep working. Books that match no metadata file in `directoryHandle` are left in place.
+ */
+export async function migrateToPerPageMode(directoryHandle: any): Promise<MigrationReport> {
+  const settings: BookSettings = { ...getBookSettings(), syncMode: "per-page" }
+  const report: MigrationReport = { migrated: [], skipped: [] }
+
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(settings.syncPageName) || []
+  const targetBlock = pageBlocks.find(block => block?.content.includes("LKRS"))
+  const books = await sourceBooks(directoryHandle)
+
+  for (const bookBlock of targetBlock?.children || []) {
+    if (Array.isArray(bookBlock)) continue
+
+    const key = existing_book_key(bookBlock.content, bookBlock.properties)
+    if (key === null) continue
+
+    const source = books.get(key)
+    const title = source?.metadata.doc_props.title || stripProperties(bookBlock.content).split('\n')[0].replace(/^#+\s*/, '')
+    if (!source) {
+      report.skipped.push(`${title} (no matching metadata file)`)
+      continue
+    }
+
+    try {
+      const result = await migrateBook(bookBlock, source, settings)
+      if (typeof result === 'string') {
+        report.skipped.push(`${title} (${result})`)
+      } else {
+        report.migrated.push(result)
+      }
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      console.error(`Error migrating ${title}:`, errorDetails)
+      report.skipped.push(`${title} (${errorDetails})`)
+    }
+  }
+
+  // with no book moved, the books are all still in single-page mode
+  if (report.migrated.length > 0) {
+    await updateIndexPage(report.migrated, settings)
+    logseq.updateSettings({ syncMode: "per-page" })
+  }
+
+  return report
+}
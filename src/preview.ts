@@ -0,0 +1,81 @@
+import '@logseq/libs'
+import { SyncOperation, SyncOperationType, SYNC_OPERATION_TYPES, summarizePlan } from './sync/plan'
+
+const COLUMN_LABELS: Record<SyncOperationType, string> = {
+  'create-page': 'New',
+  'add-annotation': 'Added',
+  'update-annotation': 'Updated',
+  'update-note': 'Notes',
+  'remove-annotation': 'Removed',
+  'conflict': 'Conflicts',
+  'orphan': 'Orphaned',
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function previewKey(): string {
+  return `logseq-koreader-sync-plan-${logseq.baseInfo.id}`
+}
+
+/**
+ * Shows the per-book counts of a sync plan in a floating dialog. Its buttons call the
+ * `confirmSyncPlan` and `cancelSyncPlan` models, which must be provided by the caller.
+ */
+export function showSyncPlan(operations: SyncOperation[]) {
+  const summaries = summarizePlan(operations)
+  const totals = SYNC_OPERATION_TYPES.map(type => operations.filter(operation => operation.type === type).length)
+
+  const header = SYNC_OPERATION_TYPES.map(type => `<th class="px-2 text-right">${COLUMN_LABELS[type]}</th>`).join('')
+  const rows = summaries.map(summary => `
+    <tr>
+      <td class="px-2">${escapeHtml(summary.book)}</td>
+      ${SYNC_OPERATION_TYPES.map(type => `<td class="px-2 text-right">${summary.counts[type] || ''}</td>`).join('')}
+    </tr>
+  `).join('')
+
+  logseq.provideUI({
+    key: previewKey(),
+    close: 'outside',
+    reset: true,
+    attrs: {
+      title: 'KOReader Sync preview',
+    },
+    style: {
+      left: '50%',
+      top: '15%',
+      transform: 'translateX(-50%)',
+      width: '720px',
+      maxHeight: '70vh',
+      overflowY: 'auto',
+      backgroundColor: 'var(--ls-primary-background-color)',
+      padding: '1em',
+    },
+    template: `
+      <div class="text-sm">
+        <p>${summaries.length} book(s) would change. Nothing has been written yet.</p>
+        <table class="w-full">
+          <thead><tr><th class="px-2 text-left">Book</th>${header}</tr></thead>
+          <tbody>${rows}</tbody>
+          <tfoot><tr><th class="px-2 text-left">Total</th>${totals.map(total => `<th class="px-2 text-right">${total}</th>`).join('')}</tr></tfoot>
+        </table>
+        <div class="flex justify-end mt-4">
+          <button class="ui__button bg-gray-500 mr-2" data-on-click="cancelSyncPlan">Cancel</button>
+          <button class="ui__button bg-indigo-600" data-on-click="confirmSyncPlan">Sync</button>
+        </div>
+      </div>
+    `,
+  })
+}
+
+export function closeSyncPlan() {
+  logseq.provideUI({
+    key: previewKey(),
+    template: ``,
+  })
+}
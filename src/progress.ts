@@ -3,12 +3,17 @@ export class ProgressNotification {
     current: number;
     progressBar: HTMLElement | null;
     msgElement: HTMLElement | null;
+    hidden: boolean;
 
-    constructor(msg: string, max: number) {
+    constructor(msg: string, max: number, hidden = false) {
         this.max = max;
         this.current = 0;
         this.msgElement = null;
         this.progressBar = null;
+        this.hidden = hidden;
+        if (hidden) {
+            return;
+        }
         logseq.provideUI({
             key: `logseq-koreader-sync-progress-notification-${logseq.baseInfo.id}`,
             path: "div.notifications",
@@ -47,6 +52,9 @@ export class ProgressNotification {
 
     increment(amount = 1) {
         this.current += amount;
+        if (this.hidden) {
+            return;
+        }
         try {
             if (this.progressBar == null) {
                 this.progressBar = window.parent.document.getElementById(
@@ -63,6 +71,9 @@ export class ProgressNotification {
     }
 
     updateMessage(msg: string) {
+        if (this.hidden) {
+            return;
+        }
         try {
             if (this.msgElement == null) {
                 const notification = document.querySelector(`[data-key="logseq-koreader-sync-progress-notification-${logseq.baseInfo.id}"]`);
@@ -77,6 +88,9 @@ export class ProgressNotification {
     }
 
     destruct() {
+        if (this.hidden) {
+            return;
+        }
         try {
             const notification = document.querySelector(`[data-key="logseq-koreader-sync-progress-notification-${logseq.baseInfo.id}"]`);
             if (notification) {
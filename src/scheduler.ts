@@ -0,0 +1,34 @@
+import '@logseq/libs'
+
+let timer: ReturnType<typeof setInterval> | null = null
+
+/** The configured automatic sync interval in milliseconds, or null if automatic sync is off. */
+export function autoSyncInterval(): number | null {
+  if (!logseq.settings?.autoSync) {
+    return null
+  }
+
+  const minutes = Number(logseq.settings?.autoSyncInterval ?? 30)
+  return minutes > 0 ? minutes * 60 * 1000 : null
+}
+
+/** (Re)starts the automatic sync timer from the current settings; call again whenever they change. */
+export function scheduleAutoSync(sync: () => Promise<void>) {
+  stopAutoSync()
+
+  const interval = autoSyncInterval()
+  if (interval === null) {
+    return
+  }
+
+  timer = setInterval(() => {
+    sync().catch(console.error)
+  }, interval)
+}
+
+export function stopAutoSync() {
+  if (timer !== null) {
+    clearInterval(timer)
+    timer = null
+  }
+}
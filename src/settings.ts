@@ -1,6 +1,7 @@
 import '@logseq/libs'
 import { SettingSchemaDesc } from '@logseq/libs/dist/LSPlugin'
 import { del as delStorage } from 'idb-keyval'
+import { BlockFormat, getPreferredFormat } from './format'
 
 export const settings: SettingSchemaDesc[] = [
   {
@@ -10,6 +11,34 @@ export const settings: SettingSchemaDesc[] = [
     title: "Remember KOReader Path",
     type: "boolean",
   },
+  {
+    key: "previewBeforeSync",
+    default: false,
+    description: "Show a preview of what a sync would create, update and remove, and wait for confirmation before writing anything to the graph.",
+    title: "Preview Before Sync",
+    type: "boolean",
+  },
+  {
+    key: "syncLogRuns",
+    default: 10,
+    description: "Number of syncs whose report is kept on the \"KOReader Sync Log\" page: the books and annotations each one changed, and the files it skipped or failed to read. Set to 0 to keep no log.",
+    title: "Sync Log Length",
+    type: "number",
+  },
+  {
+    key: "autoSync",
+    default: false,
+    description: "Sync in the background when the graph is loaded and then periodically. Only runs when the remembered KOReader directory can still be read without asking for permission, and never shows a preview.",
+    title: "Automatic Sync",
+    type: "boolean",
+  },
+  {
+    key: "autoSyncInterval",
+    default: 30,
+    description: "Minutes between automatic syncs.",
+    title: "Automatic Sync Interval",
+    type: "number",
+  },
   {
     key: "syncPageBookmarks",
     default: true,
@@ -17,6 +46,15 @@ export const settings: SettingSchemaDesc[] = [
     title: "Sync Page Bookmarks",
     type: "boolean",
   },
+  {
+    key: "removedAnnotations",
+    default: "delete",
+    description: "What to do with synced annotations that were removed in KOReader. 'delete': delete the block, unless other blocks reference it, in which case it is archived. 'archive': mark the block with koreader-status:: deleted and move it to an Archived section. 'leave': keep the block where it is.",
+    title: "Removed Annotations",
+    type: "enum",
+    enumChoices: ["delete", "archive", "leave"],
+    enumPicker: "select",
+  },
   {
     key: "maxDescriptionLength",
     default: 250,
@@ -31,21 +69,153 @@ export const settings: SettingSchemaDesc[] = [
     title: "Collapse Bookmarks",
     type: "boolean",
   },
+  {
+    key: "highlightStyle",
+    default: "none",
+    description: "How to render the highlight colour chosen in KOReader. 'none': plain quote. 'highlight': Logseq highlight markup in the matching colour (strikeouts are struck through). 'tag': plain quote followed by a #highlight-<colour> tag. The colour and drawer style are always kept as block properties.",
+    title: "Highlight Style",
+    type: "enum",
+    enumChoices: ["none", "highlight", "tag"],
+    enumPicker: "select",
+  },
+  {
+    key: "pageHeaderTemplate",
+    default: "## {{title}}",
+    description: "Content of the block each book is synced under (single-page mode only). Placeholders: {{title}}, {{authors}}.",
+    title: "Book Header Template",
+    type: "string",
+  },
+  {
+    key: "sectionHeadingTemplate",
+    default: "### Bookmarks",
+    description: "Content of the heading block the annotations of a book are synced under. Placeholders: {{title}}, {{authors}}.",
+    title: "Section Heading Template",
+    type: "string",
+  },
+  {
+    key: "highlightTemplate",
+    default: "> {{text}}",
+    description: "Content of each highlight block. {{text}} is the highlighted text, decorated according to the Highlight Style setting. Other placeholders: {{note}}, {{page}}, {{chapter}}, {{color}}, {{date}}, {{title}}, {{authors}}.",
+    title: "Highlight Template",
+    type: "string",
+    inputAs: "textarea",
+  },
+  {
+    key: "noteTemplate",
+    default: "{{note}}",
+    description: "Content of the block holding the note attached to a highlight. Leave empty to sync no note blocks. Takes the same placeholders as the highlight template.",
+    title: "Note Template",
+    type: "string",
+    inputAs: "textarea",
+  },
+  {
+    key: "writeBackNotes",
+    default: false,
+    description: "Write notes edited in Logseq back into KOReader's metadata files, so KOReader shows them too (per-page mode only). Needs permission to write to the KOReader directory; a copy of each file is kept as `.bak` before it is changed.",
+    title: "Write Notes Back to KOReader",
+    type: "boolean",
+  },
+  {
+    key: "journalHighlights",
+    default: false,
+    description: "Add a 'Read today' block to the journal page of each day you highlighted something, referencing that day's highlights grouped by book (per-page mode only).",
+    title: "Link Highlights in Journal",
+    type: "boolean",
+  },
+  {
+    key: "importReadingStatistics",
+    default: false,
+    description: "Add reading time, first and last read dates and session counts from KOReader's statistics.sqlite3 to book pages (per-page mode only). The selected directory must contain KOReader's settings folder.",
+    title: "Import Reading Statistics",
+    type: "boolean",
+  },
+  {
+    key: "journalReadingEntries",
+    default: false,
+    description: "With reading statistics imported, also add an entry for each book read that day to the journal pages.",
+    title: "Journal Reading Entries",
+    type: "boolean",
+  },
+  {
+    key: "syncVocabulary",
+    default: false,
+    description: "Turn the words looked up in KOReader's vocabulary builder into #card flashcards. The selected directory must contain KOReader's settings folder. Cards are never removed or rewritten, so their review history is kept.",
+    title: "Sync Vocabulary",
+    type: "boolean",
+  },
+  {
+    key: "vocabularyPageName",
+    default: "KOReader Vocabulary",
+    description: "Name of the page the vocabulary flashcards are added to.",
+    title: "Vocabulary Page Name",
+    type: "string",
+  },
+  {
+    key: "importKindleClippings",
+    default: false,
+    description: "Also sync the highlights, notes and bookmarks in a Kindle's My Clippings.txt (per-page mode only). The selected directory must contain the file. Books also read in KOReader get their Kindle annotations on the same page.",
+    title: "Import Kindle Clippings",
+    type: "boolean",
+  },
+  {
+    key: "importCalibreMetadata",
+    default: false,
+    description: "Add the series, publisher, publication date, ISBN, tags and ID from the metadata.opf Calibre keeps beside each book to its page (per-page mode only). Tags become page links.",
+    title: "Import Calibre Metadata",
+    type: "boolean",
+  },
+  {
+    key: "seriesAndCollectionPages",
+    default: false,
+    description: "Give each series and each KOReader collection a page listing its books, linked from the book pages through series:: and collections:: properties (per-page mode only). Collections are read from KOReader's settings/collection.lua.",
+    title: "Series and Collection Pages",
+    type: "boolean",
+  },
+  {
+    key: "kosyncServer",
+    default: "",
+    description: "Address of a kosync progress sync server, such as https://sync.koreader.rocks or a self-hosted one, to read the latest reading position of each book from (per-page mode only). Leave empty to only use the metadata files.",
+    title: "Progress Sync Server",
+    type: "string",
+  },
+  {
+    key: "kosyncUsername",
+    default: "",
+    description: "Username of your account on the progress sync server, as entered in KOReader.",
+    title: "Progress Sync Username",
+    type: "string",
+  },
+  {
+    key: "kosyncPassword",
+    default: "",
+    description: "Password of your account on the progress sync server. It is kept in the plugin settings; only its MD5 is sent, as KOReader does.",
+    title: "Progress Sync Password",
+    type: "string",
+  },
   {
     key: "syncMode",
     default: "single-page",
     description: "Choose how books are stored. Single-page: all books on one page (legacy). Per-page: each book gets its own page with an index.",
     title: "Sync Mode",
-    type: "string",
-    enum: ["single-page", "per-page"],
+    type: "enum",
+    enumChoices: ["single-page", "per-page"],
+    enumPicker: "select",
+  },
+  {
+    key: "groupByChapter",
+    default: false,
+    description: "Group annotations under a heading block for each chapter, ordered by page (per-page mode only).",
+    title: "Group By Chapter",
+    type: "boolean",
   },
   {
     key: "pageNamingConvention",
     default: "author_title",
     description: "How to name book pages. 'author_title': Author - Book Title (reduces conflicts). 'book_title': Book Title only.",
     title: "Page Naming Convention",
-    type: "string",
-    enum: ["author_title", "book_title"],
+    type: "enum",
+    enumChoices: ["author_title", "book_title"],
+    enumPicker: "select",
   },
   {
     key: "bookPagePrefix",
@@ -61,6 +231,24 @@ export const settings: SettingSchemaDesc[] = [
     title: "Index Page Name",
     type: "string",
   },
+  {
+    key: "indexGroupBy",
+    default: "status",
+    description: "How to group the books on the index page. 'status': Reading, Finished, On hold and Not started. 'author': one group per author. 'none': a single list.",
+    title: "Index Grouping",
+    type: "enum",
+    enumChoices: ["status", "author", "none"],
+    enumPicker: "select",
+  },
+  {
+    key: "indexSortOrder",
+    default: "title",
+    description: "How to sort the books within each group on the index page. 'last-annotated', 'progress' and 'highlights' put the most recent, furthest read and most highlighted books first.",
+    title: "Index Sort Order",
+    type: "enum",
+    enumChoices: ["title", "author", "last-annotated", "progress", "highlights"],
+    enumPicker: "select",
+  },
   {
     key: "syncPageName",
     default: "_logseq-koreader-sync",
@@ -71,26 +259,77 @@ export const settings: SettingSchemaDesc[] = [
 ]
 
 export interface BookSettings {
+  /** Not a plugin setting: the graph's preferred format, as last detected */
+  format: BlockFormat
+  previewBeforeSync: boolean
+  syncLogRuns: number
   maxDescriptionLength: number
   collapseBookmarks: boolean
   syncPageBookmarks: boolean
+  removedAnnotations: string
+  highlightStyle: string
+  pageHeaderTemplate: string
+  sectionHeadingTemplate: string
+  highlightTemplate: string
+  noteTemplate: string
+  writeBackNotes: boolean
+  journalHighlights: boolean
+  importReadingStatistics: boolean
+  journalReadingEntries: boolean
+  syncVocabulary: boolean
+  vocabularyPageName: string
+  importKindleClippings: boolean
+  importCalibreMetadata: boolean
+  seriesAndCollectionPages: boolean
+  kosyncServer: string
+  kosyncUsername: string
+  kosyncPassword: string
   syncMode: string
+  groupByChapter: boolean
   pageNamingConvention: string
   bookPagePrefix: string
   indexPageName: string
+  indexGroupBy: string
+  indexSortOrder: string
   syncPageName: string
 }
 
 export function getBookSettings(): BookSettings {
+  // plugin settings are untyped, read them as the values the schema above declares
+  const current = logseq.settings as Partial<BookSettings> | undefined
   return {
-    maxDescriptionLength: logseq.settings?.maxDescriptionLength ?? 250,
-    collapseBookmarks: logseq.settings?.collapseBookmarks ?? true,
-    syncPageBookmarks: logseq.settings?.syncPageBookmarks ?? true,
-    syncMode: logseq.settings?.syncMode ?? "single-page",
-    pageNamingConvention: logseq.settings?.pageNamingConvention ?? "author_title",
-    bookPagePrefix: logseq.settings?.bookPagePrefix ?? "",
-    indexPageName: logseq.settings?.indexPageName ?? "KOReader Books",
-    syncPageName: logseq.settings?.syncPageName ?? "_logseq-koreader-sync",
+    format: getPreferredFormat(),
+    previewBeforeSync: current?.previewBeforeSync ?? false,
+    syncLogRuns: current?.syncLogRuns ?? 10,
+    maxDescriptionLength: current?.maxDescriptionLength ?? 250,
+    collapseBookmarks: current?.collapseBookmarks ?? true,
+    syncPageBookmarks: current?.syncPageBookmarks ?? true,
+    removedAnnotations: current?.removedAnnotations ?? "delete",
+    highlightStyle: current?.highlightStyle ?? "none",
+    pageHeaderTemplate: current?.pageHeaderTemplate ?? "## {{title}}",
+    sectionHeadingTemplate: current?.sectionHeadingTemplate ?? "### Bookmarks",
+    highlightTemplate: current?.highlightTemplate ?? "> {{text}}",
+    noteTemplate: current?.noteTemplate ?? "{{note}}",
+    writeBackNotes: current?.writeBackNotes ?? false,
+    journalHighlights: current?.journalHighlights ?? false,
+    importReadingStatistics: current?.importReadingStatistics ?? false,
+    journalReadingEntries: current?.journalReadingEntries ?? false,
+    syncVocabulary: current?.syncVocabulary ?? false,
+    vocabularyPageName: current?.vocabularyPageName ?? "KOReader Vocabulary",
+    importKindleClippings: current?.importKindleClippings ?? false,
+    importCalibreMetadata: current?.importCalibreMetadata ?? false,
+    seriesAndCollectionPages: current?.seriesAndCollectionPages ?? false,
+    kosyncServer: current?.kosyncServer ?? "",
+    kosyncUsername: current?.kosyncUsername ?? "",
+    kosyncPassword: current?.kosyncPassword ?? "",
+    syncMode: current?.syncMode ?? "single-page",
+    groupByChapter: current?.groupByChapter ?? false,
+    pageNamingConvention: current?.pageNamingConvention ?? "author_title",
+    bookPagePrefix: current?.bookPagePrefix ?? "",
+    indexPageName: current?.indexPageName ?? "KOReader Books",
+    indexGroupBy: current?.indexGroupBy ?? "status",
+    indexSortOrder: current?.indexSortOrder ?? "title",
+    syncPageName: current?.syncPageName ?? "_logseq-koreader-sync",
   }
 }
 
@@ -0,0 +1,9 @@
+import type { Database, InitSqlJsStatic } from 'sql.js'
+
+/** Opens a KOReader SQLite file, e.g. `statistics.sqlite3`, in memory. The caller must close it. */
+export async function openDatabase(data: Uint8Array): Promise<Database> {
+  // the asm.js build needs no separate .wasm asset, and is only loaded when a database is read
+  const initSqlJs: InitSqlJsStatic = (await import('sql.js/dist/sql-asm.js')).default
+  const SQL = await initSqlJs()
+  return new SQL.Database(data)
+}
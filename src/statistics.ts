@@ -0,0 +1,225 @@
+import '@logseq/libs'
+import { IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from './settings'
+import { BookInfo, refreshBookPageProperties } from './book-pages'
+import { findFile } from './filesystem'
+import { dayDate, getOrCreateJournalPage } from './journal'
+import { openDatabase } from './sqlite'
+import { StatisticsSyncState } from './sync-state'
+import { formatDuration, formatJournalDate, hashString, normalizeAuthors } from './utils'
+
+/** Page turns further apart than this start a new reading session */
+const SESSION_GAP = 10 * 60
+
+/** One row of KOReader's `page_stat_data` table: a page, and how long it was on screen */
+export interface PageStat {
+  page: number
+  /** Unix time in seconds */
+  start_time: number
+  /** Seconds */
+  duration: number
+}
+
+export interface ReadingDay {
+  /** Seconds */
+  duration: number
+  pages: number
+}
+
+export interface ReadingStatistics {
+  /** Seconds */
+  totalReadTime: number
+  firstRead: Date
+  lastRead: Date
+  sessions: number
+  /** Keyed by local date, as `yyyy-MM-dd` */
+  days: Record<string, ReadingDay>
+}
+
+export interface StatisticsBook {
+  title: string
+  authors?: string
+  md5?: string
+  statistics: ReadingStatistics
+}
+
+function dayKey(date: Date): string {
+  return formatJournalDate(date, "yyyy-MM-dd")
+}
+
+/** Aggregates a book's page turns, which must be sorted by `start_time`, into reading time, sessions and days. */
+export function summarizeReading(pageStats: PageStat[]): ReadingStatistics | null {
+  if (pageStats.length === 0) {
+    return null
+  }
+
+  const days: Record<string, ReadingDay> = {}
+  const pagesPerDay: Record<string, Set<number>> = {}
+  let totalReadTime = 0
+  let sessions = 0
+  let previousEnd = -Infinity
+
+  for (const stat of pageStats) {
+    if (stat.start_time - previousEnd > SESSION_GAP) {
+      sessions += 1
+    }
+    previousEnd = stat.start_time + stat.duration
+    totalReadTime += stat.duration
+
+    const day = dayKey(new Date(stat.start_time * 1000))
+    days[day] = days[day] ?? { duration: 0, pages: 0 }
+    days[day].duration += stat.duration
+    pagesPerDay[day] = pagesPerDay[day] ?? new Set()
+    pagesPerDay[day].add(stat.page)
+  }
+
+  for (const day in days) {
+    days[day].pages = pagesPerDay[day].size
+  }
+
+  const last = pageStats[pageStats.length - 1]
+  return {
+    totalReadTime,
+    firstRead: new Date(pageStats[0].start_time * 1000),
+    lastRead: new Date((last.start_time + last.duration) * 1000),
+    sessions,
+    days,
+  }
+}
+
+/** Reads the books and page turns out of a `statistics.sqlite3` file. */
+export async function readStatisticsDatabase(data: Uint8Array): Promise<StatisticsBook[]> {
+  const db = await openDatabase(data)
+
+  try {
+    const stats: Record<number, PageStat[]> = {}
+    const [statRows] = db.exec("SELECT id_book, page, start_time, duration FROM page_stat_data ORDER BY id_book, start_time")
+    for (const [id, page, start_time, duration] of statRows?.values ?? []) {
+      stats[Number(id)] = stats[Number(id)] ?? []
+      stats[Number(id)].push({ page: Number(page), start_time: Number(start_time), duration: Number(duration) })
+    }
+
+    const books: StatisticsBook[] = []
+    const [bookRows] = db.exec("SELECT id, title, authors, md5 FROM book")
+    for (const [id, title, authors, md5] of bookRows?.values ?? []) {
+      const statistics = summarizeReading(stats[Number(id)] ?? [])
+      if (!statistics) continue
+
+      books.push({
+        title: String(title ?? ''),
+        authors: normalizeAuthors(authors ? String(authors) : undefined),
+        md5: md5 ? String(md5) : undefined,
+        statistics,
+      })
+    }
+    return books
+  } finally {
+    db.close()
+  }
+}
+
+/** Matches by the partial MD5 KOReader uses for both files, falling back to title and authors. */
+export function matchStatistics(books: StatisticsBook[], book: BookInfo): StatisticsBook | undefined {
+  return books.find(candidate => book.md5 && candidate.md5 === book.md5)
+    ?? books.find(candidate => candidate.title === book.title && (candidate.authors ?? '') === (book.authors ?? ''))
+}
+
+export function readingStatisticsProperties(statistics: ReadingStatistics, dateFormat: string): Record<string, string | number> {
+  return {
+    'reading-time': formatDuration(statistics.totalReadTime),
+    'first-read': `[[${formatJournalDate(statistics.firstRead, dateFormat)}]]`,
+    'last-read': `[[${formatJournalDate(statistics.lastRead, dateFormat)}]]`,
+    'reading-sessions': statistics.sessions,
+  }
+}
+
+/** One block per book read on each day, keyed by `koreader-stats` so later imports update it in place */
+export function journalEntries(matched: Array<{ book: BookInfo, statistics: StatisticsBook }>): Record<string, IBatchBlock[]> {
+  const entries: Record<string, IBatchBlock[]> = {}
+
+  for (const { book, statistics } of matched) {
+    for (const [day, reading] of Object.entries(statistics.statistics.days)) {
+      entries[day] = entries[day] ?? []
+      entries[day].push({
+        content: `Read [[${book.pageName}]] for ${formatDuration(reading.duration)}, ${reading.pages} page${reading.pages === 1 ? '' : 's'}`,
+        properties: { 'koreader-stats': statistics.md5 ?? hashString(statistics.title) },
+      })
+    }
+  }
+
+  return entries
+}
+
+/** Writes the entries of each day whose content changed since the last import; returns the new per-day hashes. */
+async function writeJournalEntries(
+  entries: Record<string, IBatchBlock[]>,
+  dateFormat: string,
+  previous: Record<string, string>
+): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {}
+
+  for (const [day, blocks] of Object.entries(entries)) {
+    hashes[day] = hashString(JSON.stringify(blocks))
+    if (previous[day] === hashes[day]) continue
+
+    const page = await getOrCreateJournalPage(dayDate(day), dateFormat)
+    const pageBlocks = await logseq.Editor.getPageBlocksTree(page.uuid) || []
+
+    for (const block of blocks) {
+      const existing = pageBlocks.find(pageBlock => String(pageBlock.properties?.koreaderStats) === block.properties!['koreader-stats'])
+      if (!existing) {
+        await logseq.Editor.appendBlockInPage(page.uuid, block.content, { properties: block.properties })
+      } else if (!existing.content.startsWith(block.content)) {
+        await logseq.Editor.updateBlock(existing.uuid, block.content, { properties: block.properties })
+      }
+    }
+  }
+
+  return hashes
+}
+
+/**
+ * Adds reading time, first and last read dates and session counts from KOReader's statistics plugin
+ * to the book pages, and optionally a reading entry per book to each day's journal page. Does nothing
+ * when neither the statistics file nor the set of `freshPages` changed since `previous`.
+ *
+ * @param freshPages UUIDs of the book pages written by this sync
+ */
+export async function importReadingStatistics(
+  directoryHandle: any,
+  books: BookInfo[],
+  freshPages: Set<string>,
+  settings: BookSettings,
+  previous?: StatisticsSyncState
+): Promise<StatisticsSyncState | undefined> {
+  const file = await findFile(directoryHandle, "statistics.sqlite3")
+  if (!file) {
+    console.warn("KOReader Sync: statistics.sqlite3 not found in the KOReader directory, skipping reading statistics.")
+    return previous
+  }
+
+  const changed = !previous || previous.lastModified !== file.lastModified || previous.size !== file.size
+  if (!changed && freshPages.size === 0) {
+    return previous
+  }
+
+  const statistics = await readStatisticsDatabase(new Uint8Array(await file.arrayBuffer()))
+  const { preferredDateFormat } = await logseq.App.getUserConfigs()
+  const matched: Array<{ book: BookInfo, statistics: StatisticsBook }> = []
+
+  for (const book of books) {
+    const bookStatistics = matchStatistics(statistics, book)
+    if (!bookStatistics) continue
+
+    matched.push({ book, statistics: bookStatistics })
+    if (changed || freshPages.has(book.pageUUID)) {
+      await refreshBookPageProperties(book.pageUUID, readingStatisticsProperties(bookStatistics.statistics, preferredDateFormat))
+    }
+  }
+
+  const journal = settings.journalReadingEntries
+    ? await writeJournalEntries(journalEntries(matched), preferredDateFormat, previous?.journal ?? {})
+    : {}
+
+  return { lastModified: file.lastModified, size: file.size, journal }
+}
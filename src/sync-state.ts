@@ -0,0 +1,120 @@
+import { get as getStorage, set as setStorage, del as delStorage } from 'idb-keyval'
+import { BookSettings } from './settings'
+import { BookInfo } from './book-pages'
+import { hashString } from './utils'
+
+const SYNC_STATE_KEY = 'logseq_koreader_sync__syncState'
+
+/** What was last synced from a single metadata file. */
+export interface FileSyncState {
+  lastModified: number
+  size: number
+  hash: string
+  /** The book page in per-page mode */
+  pageUUID?: string
+  /** The book block in single-page mode */
+  blockUUID?: string
+  book?: BookInfo
+  /** The note block content last synced for each annotation, keyed by `koreader-id`, to find notes edited in Logseq */
+  notes?: Record<string, string>
+  /** Note block contents edited in Logseq that could not be written back, keyed by `koreader-id`, so they are reported once */
+  unwritten?: Record<string, string>
+}
+
+export interface FileFingerprint {
+  lastModified: number
+  size: number
+}
+
+/** What was last imported from KOReader's `statistics.sqlite3` */
+export interface StatisticsSyncState extends FileFingerprint {
+  /** Hash of the reading entries written to each journal day, keyed by `yyyy-MM-dd` */
+  journal: Record<string, string>
+}
+
+/** What was last imported from Kindle's `My Clippings.txt` */
+export interface KindleSyncState extends FileFingerprint {
+  /** The pages of books only read on the Kindle, for the index page */
+  books: BookInfo[]
+}
+
+/** What was last imported from Calibre's `metadata.opf` files */
+export interface CalibreSyncState {
+  /** Hash of the path, modification time and size of every OPF file */
+  fingerprint: string
+  /** Series Calibre records for each book, keyed by page UUID; it takes over KOReader's on series pages and the index */
+  series?: Record<string, { series: string, seriesIndex?: number }>
+}
+
+export interface SyncState {
+  /** Hash of the settings that shape the rendered blocks; any change to them invalidates every entry */
+  settingsHash: string
+  files: Record<string, FileSyncState>
+  statistics?: StatisticsSyncState
+  /** Hash of the "Read today" block written to each journal day, keyed by `yyyy-MM-dd` */
+  highlightJournal?: Record<string, string>
+  /** Fingerprint of the last imported `vocabulary_builder.sqlite3` */
+  vocabulary?: FileFingerprint
+  kindle?: KindleSyncState
+  calibre?: CalibreSyncState
+  /** Fingerprint of the last read `collection.lua` */
+  collections?: FileFingerprint
+  /** Timestamp of the kosync reading position last written for each document, keyed by partial MD5 */
+  kosync?: Record<string, number>
+  /** When every book page was last looked at for notes to write back, in milliseconds */
+  syncedAt?: number
+}
+
+/**
+ * The settings that change the pages and blocks rendered from a metadata file, or what is recorded
+ * about it. Others, such as the auto-sync interval, the index page or the kosync account, do not.
+ */
+const RENDER_SETTINGS: Array<keyof BookSettings> = [
+  "format",
+  "maxDescriptionLength",
+  "collapseBookmarks",
+  "syncPageBookmarks",
+  "highlightStyle",
+  "pageHeaderTemplate",
+  "sectionHeadingTemplate",
+  "highlightTemplate",
+  "noteTemplate",
+  "writeBackNotes",
+  "removedAnnotations",
+  "seriesAndCollectionPages",
+  "groupByChapter",
+  "pageNamingConvention",
+  "bookPagePrefix",
+  "syncPageName",
+]
+
+function settingsHash(settings: BookSettings): string {
+  return hashString(JSON.stringify(RENDER_SETTINGS.map(key => settings[key])))
+}
+
+export function emptySyncState(settings: BookSettings): SyncState {
+  return { settingsHash: settingsHash(settings), files: {} }
+}
+
+/** Loads the state of the previous sync in the current mode, discarding it if the settings have changed since. */
+export async function loadSyncState(settings: BookSettings): Promise<SyncState> {
+  const state: SyncState | undefined = await getStorage(`${SYNC_STATE_KEY}__${settings.syncMode}`)
+  if (!state || state.settingsHash !== settingsHash(settings)) {
+    return emptySyncState(settings)
+  }
+  return state
+}
+
+export async function saveSyncState(settings: BookSettings, state: SyncState): Promise<void> {
+  await setStorage(`${SYNC_STATE_KEY}__${settings.syncMode}`, state)
+}
+
+export async function clearSyncState(): Promise<void> {
+  await delStorage(`${SYNC_STATE_KEY}__single-page`)
+  await delStorage(`${SYNC_STATE_KEY}__per-page`)
+}
+
+/** Cheap check against the file's metadata, so unchanged files need not even be read. */
+export function fingerprintMatches(previous: FileSyncState | undefined, file: File): boolean {
+  return !!previous && previous.lastModified === file.lastModified && previous.size === file.size
+}
@@ -1,158 +1,428 @@
 import '@logseq/libs'
-import { BlockEntity, IBatchBlock, BlockUUID } from '@logseq/libs/dist/LSPlugin'
-import { insertBlockTree } from '../block-tree'
-import { BookSettings } from '../settings'
-import { createBookmarksSection } from '../book-pages'
+import { BlockEntity, IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { childUUIDs, hasInboundReferences, insertBlockTree } from '../block-tree'
+import { BookSettings, getBookSettings } from '../settings'
+import { createBookmarksSection, isArchivedSection, isBookmarksSection } from '../book-pages'
+import { AnnotationSource, bookmarks_section_block, content_hash, KOReaderMetadata, metadata_to_bookmark_blocks } from '../metadata'
+import { BlockFormat, formatBlock, parseHeading } from '../format'
+import { propertyKey, stripProperties } from '../utils'
+import { newSyncReport, SyncReport } from './log'
+
+export interface ExistingBookmarks {
+  byId: Record<string, BlockEntity>
+  byQuote: Record<string, BlockEntity>
+}
+
+/** Returns the quoted text of a bookmark block: its Org quote block, or its `> ` quote without the marker and any property lines. */
+export function bookmarkQuote(content: string): string {
+  const lines = content.split('\n')
+
+  const begin = lines.findIndex(line => line.trim().toUpperCase() === '#+BEGIN_QUOTE')
+  if (begin !== -1) {
+    const end = lines.findIndex((line, index) => index > begin && line.trim().toUpperCase() === '#+END_QUOTE')
+    return lines.slice(begin + 1, end === -1 ? undefined : end).join('\n')
+  }
+
+  const start = lines.findIndex(line => line.startsWith('> '))
+  if (start === -1) {
+    return content
+  }
+
+  const quote: string[] = []
+  for (const line of lines.slice(start)) {
+    if (/^[\w-]+::/.test(line)) break
+    quote.push(line)
+  }
+  return quote.join('\n').substring(2)
+}
+
+/**
+ * Whether an existing block's content or synced properties differ from the freshly built `bookmark`.
+ * The whole rendered content is compared, so a changed highlight template rewrites the block in place.
+ */
+export function bookmarkNeedsUpdate(content: string, properties: Record<string, unknown>, bookmark: IBatchBlock): boolean {
+  return stripProperties(content) !== stripProperties(bookmark.content)
+    || Object.entries(bookmark.properties || {}).some(([key, value]) =>
+      key !== 'collapsed' && String(properties[propertyKey(key)]) !== String(value))
+}
+
+/**
+ * Indexes existing bookmark blocks by their `koreader-id` property. Blocks synced before that
+ * property existed are indexed by their quoted text instead, and pick up an id once matched.
+ * Blocks synced from another `source` are skipped, since they are that source's to update or remove.
+ */
+export async function collectExistingBookmarks(
+  bookmarkUUIDs: string[],
+  bookmarksUUID: string,
+  settings: BookSettings,
+  source: AnnotationSource = "koreader"
+): Promise<ExistingBookmarks> {
+  const existing: ExistingBookmarks = { byId: {}, byQuote: {} }
+
+  for (const uuid of bookmarkUUIDs) {
+    const bookmark_block = await logseq.Editor.getBlock(uuid)
+
+    if (!bookmark_block?.content || (bookmark_block.properties?.source ?? "koreader") !== source) {
+      continue
+    }
+
+    const quote = bookmarkQuote(bookmark_block.content)
+    if (!settings.syncPageBookmarks && quote.trim() === "Page bookmark") {
+      await removeAnnotationBlock(bookmark_block, bookmarksUUID, settings)
+      continue
+    }
+
+    const id = bookmark_block.properties?.koreaderId
+    if (id) {
+      existing.byId[String(id)] = bookmark_block
+    } else {
+      existing.byQuote[quote] = bookmark_block
+    }
+  }
+
+  return existing
+}
+
+/** The blocks next to `block`: the top-level blocks of its page, or the children of its parent block */
+async function siblingBlocks(block: BlockEntity | null): Promise<BlockEntity[]> {
+  if (!block?.parent) {
+    return []
+  }
+  if (block.parent.id === block.page.id) {
+    const page = await logseq.Editor.getPage(block.page.id)
+    return page ? await logseq.Editor.getPageBlocksTree(page.uuid) || [] : []
+  }
+
+  const parent = await logseq.Editor.getBlock(block.parent.id, { includeChildren: true })
+  return (parent?.children || []).filter((child): child is BlockEntity => !Array.isArray(child))
+}
+
+/** The archive section next to the bookmarks section, wherever the user moved it, or a new one right after it. */
+async function getOrCreateArchivedSection(bookmarksUUID: string, format: BlockFormat): Promise<string> {
+  const archivedSection = (await siblingBlocks(await logseq.Editor.getBlock(bookmarksUUID))).find(isArchivedSection)
+  if (archivedSection) {
+    return archivedSection.uuid
+  }
+
+  const section = formatBlock({ content: "### Archived" }, format)
+  const archived = await logseq.Editor.insertBlock(bookmarksUUID, section.content, { sibling: true, ...(section.properties ? { properties: section.properties } : {}) })
+  return archived!.uuid
+}
+
+/**
+ * Deals with a block whose annotation is gone from KOReader, as the `removedAnnotations` setting asks.
+ * Blocks referenced elsewhere in the graph are never deleted, only archived, so those references keep working.
+ * Returns whether the block was deleted or archived.
+ */
+export async function removeAnnotationBlock(block: BlockEntity, bookmarksUUID: string, settings: BookSettings): Promise<boolean> {
+  if (settings.removedAnnotations === "leave" || block.properties?.koreaderStatus === "deleted") {
+    return false
+  }
+
+  if (settings.removedAnnotations === "delete" && !(await hasInboundReferences(block.uuid))) {
+    await logseq.Editor.removeBlock(block.uuid)
+    return true
+  }
+
+  const archivedUUID = await getOrCreateArchivedSection(bookmarksUUID, settings.format)
+  await logseq.Editor.upsertBlockProperty(block.uuid, 'koreader-status', 'deleted')
+  await logseq.Editor.moveBlock(block.uuid, archivedUUID, { children: true })
+  return true
+}
+
+/**
+ * How a synced block's content changed since the sync last wrote it, going by the `koreader-hash` written
+ * with it: not at all compared with `fresh`, only in KOReader, only by the user in Logseq, or on both sides.
+ */
+export type ContentChange = "none" | "koreader" | "user" | "both"
+
+/**
+ * Compares a block's content with what the sync would write now. Blocks synced before hashes were
+ * recorded, without a `written` hash, are taken to be unedited.
+ */
+export function contentChange(content: string, written: unknown, fresh: IBatchBlock): ContentChange {
+  const current = stripProperties(content)
+  if (current === stripProperties(fresh.content)) {
+    return "none"
+  }
+  if (written === undefined || content_hash(current) === String(written)) {
+    return "koreader"
+  }
+  return String(written) === String(fresh.properties?.['koreader-hash'] ?? content_hash(fresh.content)) ? "user" : "both"
+}
+
+/**
+ * The hash last written to an annotation's note block. A note block without one under an annotation
+ * that has one was added by the user where the sync wrote no note.
+ */
+export function writtenNoteHash(noteProperties: Record<string, unknown> | undefined, annotationProperties: Record<string, unknown> | undefined): unknown {
+  return noteProperties?.koreaderHash ?? (annotationProperties?.koreaderHash !== undefined ? content_hash('') : undefined)
+}
+
+/**
+ * Adds a block edited on both sides to the report's conflicts, unless this version from KOReader was
+ * reported for it before. The hash of the reported version is kept in the block's `koreader-conflict`.
+ */
+async function reportConflict(uuid: string, properties: Record<string, unknown> | undefined, fresh: IBatchBlock, report: SyncReport): Promise<void> {
+  const hash = String(fresh.properties?.['koreader-hash'] ?? content_hash(fresh.content))
+  if (String(properties?.koreaderConflict) === hash) return
+
+  await logseq.Editor.upsertBlockProperty(uuid, 'koreader-conflict', hash)
+  report.conflicts.push({ uuid, koreader: fresh.content })
+}
+
+/**
+ * Brings the synced properties of a block the user edited up to date, leaving its content and hash alone.
+ * Returns whether any property changed.
+ */
+async function updateSyncedProperties(block: BlockEntity, bookmark: IBatchBlock): Promise<boolean> {
+  let changed = false
+  for (const [key, value] of Object.entries(bookmark.properties || {})) {
+    if (key === 'collapsed' || key === 'koreader-hash' || value === undefined || value === null) continue
+
+    if (String(block.properties?.[propertyKey(key)]) !== String(value)) {
+      await logseq.Editor.upsertBlockProperty(block.uuid, key, value)
+      changed = true
+    }
+  }
+  return changed
+}
+
+/**
+ * Updates an annotation's note block as `contentChange` allows, keeping notes the user edited. A note
+ * removed in KOReader goes the way of a removed annotation, through `removeAnnotationBlock`.
+ * Returns whether the note block was written to.
+ */
+async function reconcileNote(
+  existing_bookmark: BlockEntity,
+  note: IBatchBlock | undefined,
+  report: SyncReport,
+  bookmarksUUID: string,
+  settings: BookSettings
+): Promise<boolean> {
+  const existing_children = childUUIDs(existing_bookmark.children)
+
+  if (existing_children.length === 0) {
+    if (note) {
+      await insertBlockTree(existing_bookmark.uuid, note, { sibling: false })
+    }
+    return !!note
+  }
+
+  const existing_note_block = (await logseq.Editor.getBlock(existing_children[0]))!
+  const fresh = note ?? { content: '' }
+  const change = contentChange(
+    existing_note_block.content, writtenNoteHash(existing_note_block.properties, existing_bookmark.properties), fresh
+  )
+
+  if (change === "both") {
+    await reportConflict(existing_note_block.uuid, existing_note_block.properties, fresh, report)
+  } else if (change === "user") {
+    return false
+  } else if (!note) {
+    return await removeAnnotationBlock(existing_note_block, bookmarksUUID, settings)
+  } else if (bookmarkNeedsUpdate(existing_note_block.content, existing_note_block.properties || {}, note)) {
+    await logseq.Editor.updateBlock(existing_note_block.uuid, note.content, { properties: note.properties })
+    return true
+  }
+  return false
+}
+
+/**
+ * Updates the existing block matching `bookmark` in place, so its UUID and any references to it
+ * survive edits made in KOReader, or inserts it under `parentUUID` when it is new. Content the user
+ * edited in Logseq is kept; where KOReader changed it too, the block is added to the report's conflicts,
+ * once for each version from KOReader.
+ * Annotations added and changed are counted in `report`. Returns the existing block that was matched, or null if a new one was inserted.
+ *
+ * @param keepNote leave the note block as it is in Logseq, reporting it as a conflict, such as a note whose write-back conflicted
+ * @param bookmarksUUID the bookmarks section, next to which notes removed in KOReader are archived
+ */
+export async function reconcileBookmark(
+  existing: ExistingBookmarks,
+  bookmark: IBatchBlock,
+  parentUUID: string,
+  keepNote: boolean = false,
+  report: SyncReport = newSyncReport(),
+  bookmarksUUID: string = parentUUID,
+  settings: BookSettings = getBookSettings()
+): Promise<BlockEntity | null> {
+  const id = String(bookmark.properties?.['koreader-id'])
+  const quote = bookmarkQuote(bookmark.content)
+
+  let existing_bookmark: BlockEntity | undefined = existing.byId[id]
+  delete existing.byId[id]
+  if (!existing_bookmark && quote in existing.byQuote) {
+    existing_bookmark = existing.byQuote[quote]
+    delete existing.byQuote[quote]
+  }
+
+  if (!existing_bookmark) {
+    await insertBlockTree(parentUUID, bookmark, { sibling: false })
+    report.annotationsAdded++
+    return null
+  }
+
+  let changed = false
+  const change = contentChange(existing_bookmark.content, existing_bookmark.properties?.koreaderHash, bookmark)
+  if (change === "user" || change === "both") {
+    changed = await updateSyncedProperties(existing_bookmark, bookmark)
+    if (change === "both") {
+      await reportConflict(existing_bookmark.uuid, existing_bookmark.properties, bookmark, report)
+    }
+  } else if (bookmarkNeedsUpdate(existing_bookmark.content, existing_bookmark.properties || {}, bookmark)) {
+    await logseq.Editor.updateBlock(existing_bookmark.uuid, bookmark.content, { properties: bookmark.properties })
+    changed = true
+  }
+
+  const note = bookmark.children?.[0]
+  const existing_note = childUUIDs(existing_bookmark.children)[0]
+  if (keepNote) {
+    if (existing_note) {
+      const existing_note_block = await logseq.Editor.getBlock(existing_note)
+      await reportConflict(existing_note, existing_note_block?.properties, note ?? { content: '' }, report)
+    }
+  } else if (await reconcileNote(existing_bookmark, note, report, bookmarksUUID, settings)) {
+    changed = true
+  }
+
+  if (changed) {
+    report.annotationsChanged++
+  }
+  return existing_bookmark
+}
+
+interface ChapterBlock {
+  uuid: string
+  id: number
+  page: number
+}
+
+function bookmarkPage(bookmark: IBatchBlock): number {
+  return Number(bookmark.properties?.page) || 0
+}
+
+/** Chapter headings are kept in page order, so a chapter seen for the first time is inserted before any later one. */
+async function getOrCreateChapterBlock(
+  chapters: Record<string, ChapterBlock>,
+  chapter: string,
+  page: number,
+  bookmarksUUID: string,
+  format: BlockFormat
+): Promise<ChapterBlock> {
+  if (chapter in chapters) {
+    return chapters[chapter]
+  }
+
+  const chapterBlock = formatBlock({
+    content: `#### ${chapter}`,
+    properties: {
+      'page': page,
+    },
+  }, format)
+
+  const next = Object.values(chapters)
+    .filter(existing => existing.page > page)
+    .sort((a, b) => a.page - b.page)[0]
+
+  const inserted = next
+    ? await insertBlockTree(next.uuid, chapterBlock, { sibling: true, before: true })
+    : await insertBlockTree(bookmarksUUID, chapterBlock, { sibling: false })
+
+  chapters[chapter] = { uuid: inserted!.uuid, id: inserted!.id, page }
+  return chapters[chapter]
+}
 
 export async function syncBookmarksToPage(
-  metadata: any,
+  metadata: KOReaderMetadata,
   pageUUID: string,
   _bookmarksUUID: string,
-  settings: BookSettings
+  settings: BookSettings,
+  keptNotes: string[] = [],
+  report: SyncReport = newSyncReport()
 ): Promise<void> {
   try {
     const pageBlocks = await logseq.Editor.getPageBlocksTree(pageUUID)
 
     if (!pageBlocks) return
 
-    let existing_bookmark_block_uuid: string | null = null
-    let existing_bookmark_blocks: any[] = []
+    let existing_bookmark_block: BlockEntity | null = null
+    const existing_bookmark_blocks: string[] = []
+    const chapters: Record<string, ChapterBlock> = {}
+
+    let archived_blocks: string[] = []
 
     for (const block of pageBlocks) {
-      if (block.content === "### Bookmarks") {
-        existing_bookmark_block_uuid = block.uuid
-        existing_bookmark_blocks = block.children || []
-        break
+      if (isBookmarksSection(block)) {
+        existing_bookmark_block = block
+      } else if (isArchivedSection(block)) {
+        archived_blocks = childUUIDs(block.children)
       }
     }
 
-    if (!existing_bookmark_block_uuid) {
-      existing_bookmark_block_uuid = await createBookmarksSection(pageUUID)
+    if (!existing_bookmark_block) {
+      existing_bookmark_block = await logseq.Editor.getBlock(await createBookmarksSection(pageUUID, bookmarks_section_block(metadata, settings)))
     }
 
-    const existing_bookmarks = {}
-    for (const bookmark of existing_bookmark_blocks) {
-      if (!Array.isArray(bookmark) || bookmark.length < 2) {
-        continue
-      }
-      const bookmark_block = await logseq.Editor.getBlock(bookmark[1] as BlockEntity)
-
-      if (!bookmark_block?.content) {
+    for (const child of existing_bookmark_block!.children || []) {
+      const heading = Array.isArray(child) ? null : parseHeading(child.content, child.properties)
+      if (Array.isArray(child) || heading?.level !== 4) {
+        existing_bookmark_blocks.push(...childUUIDs([child]))
         continue
       }
 
-      const isPageBookmark = bookmark_block.content.trim() === "> Page bookmark"
-      if (!settings.syncPageBookmarks && isPageBookmark) {
-        await logseq.Editor.removeBlock(bookmark[1] as BlockUUID)
-        continue
-      }
+      const chapter = heading.text
+      chapters[chapter] = { uuid: child.uuid, id: child.id, page: Number(child.properties?.page) || 0 }
+      existing_bookmark_blocks.push(...childUUIDs(child.children))
+    }
 
-      const content_start = bookmark_block!.content!.indexOf("\n> ")
-      const content = content_start > -1 ? bookmark_block!.content!.substring(content_start + 3).replace('-', '\\-') : bookmark_block!.content!.substring(2).replace('-', '\\-')
+    const existing_bookmark_block_uuid = existing_bookmark_block!.uuid
+    const existing_bookmarks = await collectExistingBookmarks(
+      [...existing_bookmark_blocks, ...archived_blocks], existing_bookmark_block_uuid, settings, metadata.source
+    )
+    const used_chapters = new Set<string>()
 
-      existing_bookmarks[content] = bookmark[1]
+    const bookmarks = metadata_to_bookmark_blocks(metadata, settings)
+    if (settings.groupByChapter) {
+      bookmarks.sort((a, b) => bookmarkPage(a) - bookmarkPage(b))
     }
 
-    const annotations = metadata.annotations || metadata.bookmarks || []
-
-    for (const annotation of annotations) {
-      let key: string
-      if (metadata.bookmarks) {
-        key = annotation.notes.replace('-', '\\-')
-      } else {
-        if (!annotation.pos0) {
-          key = "Page bookmark"
-        } else if (annotation.text) {
-          key = annotation.text.replace('-', '\\-')
-        } else {
-          continue
-        }
-      }
+    for (const bookmarkBlock of bookmarks) {
+      const chapter = bookmarkBlock.properties?.chapter as string | undefined
 
-      const personal_note: IBatchBlock[] = []
-      if (metadata.bookmarks && annotation.text) {
-        personal_note.push({
-          content: annotation.text,
-        })
-      } else if (!metadata.bookmarks && annotation.note) {
-        personal_note.push({
-          content: annotation.note.replace('-', '\\-'),
-        })
+      let parent = { uuid: existing_bookmark_block_uuid, id: existing_bookmark_block!.id }
+      if (settings.groupByChapter && chapter) {
+        parent = await getOrCreateChapterBlock(chapters, chapter, bookmarkPage(bookmarkBlock), existing_bookmark_block_uuid, settings.format)
+        used_chapters.add(chapter)
       }
 
-      let bookmarkBlock: IBatchBlock
-
-      if (metadata.bookmarks) {
-        bookmarkBlock = {
-          content: `> ${annotation.notes.replace('-', '\\-')}`,
-          properties: {
-            'datetime': annotation.datetime,
-            'page': annotation.page,
-            'chapter': annotation.chapter,
-            'collapsed': settings.collapseBookmarks && personal_note.length > 0,
-          },
-          children: personal_note,
-        }
-      } else {
-        let text_content: string
-        const isPageBookmark = !annotation.pos0
-        if (isPageBookmark) {
-          if (!settings.syncPageBookmarks) {
-            continue
-          }
-          text_content = "> Page bookmark"
-        } else if (annotation.text) {
-          text_content = `> ${annotation.text.replace('-', '\\-')}`
-        } else {
-          text_content = "> (no text available)"
-        }
-
-        let annotation_date: string = annotation.datetime
-        if (annotation.datetime_updated) {
-          annotation_date = annotation.datetime_updated
-        }
-
-        bookmarkBlock = {
-          content: text_content,
-          properties: {
-            'datetime': annotation_date,
-            'page': annotation.pageno,
-            'chapter': annotation.chapter,
-            'collapsed': settings.collapseBookmarks && personal_note.length > 0,
-          },
-          children: personal_note,
-        }
+      const matched = await reconcileBookmark(
+        existing_bookmarks, bookmarkBlock, parent.uuid, keptNotes.includes(String(bookmarkBlock.properties?.['koreader-id'])), report,
+        existing_bookmark_block_uuid, settings
+      )
+      if (matched && matched.parent?.id !== parent.id) {
+        await logseq.Editor.moveBlock(matched.uuid, parent.uuid, { children: true })
+      }
+      if (matched?.properties?.koreaderStatus) {
+        // the annotation is back in KOReader, so it comes out of the archive
+        await logseq.Editor.removeBlockProperty(matched.uuid, 'koreader-status')
       }
+    }
 
-      if (key in existing_bookmarks) {
-        const existing_bookmark = await logseq.Editor.getBlock(existing_bookmarks[key])
-
-        if (existing_bookmark!.children && existing_bookmark!.children!.length > 0) {
-          const existing_note = existing_bookmark!.children![0]
-
-          if (!personal_note || personal_note.length === 0) {
-            await logseq.Editor.removeBlock(existing_note[1] as BlockUUID)
-          } else {
-            const existing_note_block = await logseq.Editor.getBlock(existing_note[1] as BlockEntity)
-
-            if (existing_note_block!.content !== personal_note[0].content) {
-              await logseq.Editor.updateBlock(existing_note[1] as string, personal_note[0].content)
-            }
-          }
-        } else {
-          if (personal_note && personal_note.length > 0) {
-            await insertBlockTree(existing_bookmark!.uuid, personal_note[0], { sibling: false })
-          }
-        }
-
-        delete existing_bookmarks[key]
-      } else {
-        await insertBlockTree(existing_bookmark_block_uuid!, bookmarkBlock, { sibling: false })
+    for (const block of [...Object.values(existing_bookmarks.byId), ...Object.values(existing_bookmarks.byQuote)]) {
+      if (await removeAnnotationBlock(block, existing_bookmark_block_uuid, settings)) {
+        report.annotationsRemoved++
       }
     }
 
-    for (const key in existing_bookmarks) {
-      await logseq.Editor.removeBlock(existing_bookmarks[key] as BlockUUID)
+    for (const chapter in chapters) {
+      if (used_chapters.has(chapter) || await hasInboundReferences(chapters[chapter].uuid)) continue
+
+      // annotations from another source, or left in place, may still sit under the heading
+      const chapterBlock = await logseq.Editor.getBlock(chapters[chapter].uuid, { includeChildren: true })
+      if (!chapterBlock?.children?.length) {
+        await logseq.Editor.removeBlock(chapters[chapter].uuid)
+      }
     }
   } catch (e) {
     const errorDetails = e instanceof Error ? e.message : String(e)
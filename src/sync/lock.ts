@@ -0,0 +1,23 @@
+let running = false
+
+export function isSyncRunning(): boolean {
+  return running
+}
+
+/**
+ * Runs `sync` unless another sync is already in progress, so manual and scheduled syncs never
+ * write to the graph at the same time. Returns false without waiting if the lock is taken.
+ */
+export async function withSyncLock(sync: () => Promise<void>): Promise<boolean> {
+  if (running) {
+    return false
+  }
+
+  running = true
+  try {
+    await sync()
+  } finally {
+    running = false
+  }
+  return true
+}
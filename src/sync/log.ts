@@ -0,0 +1,180 @@
+import '@logseq/libs'
+import { IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from '../settings'
+import { insertBlockTree } from '../block-tree'
+import { formatBlockTree } from '../format'
+import { SyncOptions } from './options'
+
+export const SYNC_LOG_PAGE = "KOReader Sync Log"
+
+/** A synced block edited both in Logseq and in KOReader since the last sync; it is left as edited in Logseq. */
+export interface BlockConflict {
+  uuid: string
+  /** What KOReader has for the block now; empty if KOReader removed it */
+  koreader: string
+}
+
+export interface SkippedFile {
+  path: string
+  reason: string
+}
+
+export interface SyncError {
+  /** The metadata file, or the step of the sync, that failed */
+  source: string
+  message: string
+}
+
+/** What a sync did, collected as it runs and written to the sync log page when it finishes. */
+export interface SyncReport {
+  started: Date
+  mode: string
+  /** Titles of the books whose page or block was created, updated or skipped as unchanged; unchanged ones in single-page mode go by path */
+  created: string[]
+  updated: string[]
+  unchanged: string[]
+  annotationsAdded: number
+  annotationsChanged: number
+  annotationsRemoved: number
+  /** Notes edited in Logseq that were written back into KOReader */
+  notesWrittenBack: number
+  skipped: SkippedFile[]
+  errors: SyncError[]
+  conflicts: BlockConflict[]
+}
+
+export function newSyncReport(mode: string = "per-page", started: Date = new Date()): SyncReport {
+  return {
+    started,
+    mode,
+    created: [],
+    updated: [],
+    unchanged: [],
+    annotationsAdded: 0,
+    annotationsChanged: 0,
+    annotationsRemoved: 0,
+    notesWrittenBack: 0,
+    skipped: [],
+    errors: [],
+    conflicts: [],
+  }
+}
+
+/** Whether the sync changed nothing and ran into no problems */
+export function isQuietReport(report: SyncReport): boolean {
+  return report.created.length === 0 && report.updated.length === 0 && report.notesWrittenBack === 0
+    && report.skipped.length === 0 && report.errors.length === 0 && report.conflicts.length === 0
+}
+
+/** A list of book titles. They are not linked, so the log stays out of each book page's references. */
+function booksBlock(label: string, titles: string[], collapsed: boolean = false): IBatchBlock[] {
+  if (titles.length === 0) {
+    return []
+  }
+  return [{
+    content: `${label} (${titles.length})`,
+    ...(collapsed ? { properties: { 'collapsed': true } } : {}),
+    children: [{ content: titles.join(', ') }],
+  }]
+}
+
+/**
+ * The log entry of a sync: what happened to books and annotations, the files that were skipped or
+ * failed, and each block edited on both sides, with KOReader's version under it.
+ */
+export function reportBlock(report: SyncReport): IBatchBlock {
+  const children: IBatchBlock[] = [
+    {
+      content: `Books: ${report.created.length} created, ${report.updated.length} updated, ${report.unchanged.length} unchanged`,
+      children: [
+        ...booksBlock("Created", report.created),
+        ...booksBlock("Updated", report.updated),
+        ...booksBlock("Unchanged", report.unchanged, true),
+      ],
+    },
+    {
+      content: `Annotations: ${report.annotationsAdded} added, ${report.annotationsChanged} changed, ${report.annotationsRemoved} removed`
+        + (report.notesWrittenBack > 0 ? `; ${report.notesWrittenBack} note(s) written back to KOReader` : ''),
+    },
+  ]
+
+  if (report.skipped.length > 0) {
+    children.push({
+      content: `Skipped files (${report.skipped.length})`,
+      children: report.skipped.map(file => ({ content: `\`${file.path}\`: ${file.reason}` })),
+    })
+  }
+
+  if (report.errors.length > 0) {
+    children.push({
+      content: `Errors (${report.errors.length})`,
+      children: report.errors.map(error => ({ content: `\`${error.source}\`: ${error.message}` })),
+    })
+  }
+
+  if (report.conflicts.length > 0) {
+    children.push({
+      content: `Conflicts (${report.conflicts.length}): edited both in Logseq and in KOReader, and left as edited in Logseq. KOReader's version is under each one.`,
+      children: report.conflicts.map(conflict => ({
+        content: `((${conflict.uuid}))`,
+        children: [{ content: conflict.koreader || "(removed in KOReader)" }],
+      })),
+    })
+  }
+
+  return {
+    content: `## Sync at ${report.started.toLocaleString()} (${report.mode})`,
+    properties: { 'koreader-log': 'run' },
+    children,
+  }
+}
+
+/**
+ * Adds a report to the top of the sync log page, creating the page if needed, and removes the oldest
+ * entries beyond the `syncLogRuns` setting. Blocks added to the page by the user are left alone.
+ */
+export async function writeSyncLog(report: SyncReport, settings: BookSettings): Promise<void> {
+  let page = await logseq.Editor.getPage(SYNC_LOG_PAGE)
+  if (!page) {
+    page = await logseq.Editor.createPage(SYNC_LOG_PAGE, {}, { format: settings.format, redirect: false })
+  }
+
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(page!.uuid) || []
+  const entry = formatBlockTree(reportBlock(report), settings.format)
+  if (pageBlocks[0]) {
+    await insertBlockTree(pageBlocks[0].uuid, entry, { sibling: true, before: true })
+  } else {
+    await insertBlockTree(page!.uuid, entry)
+  }
+
+  const runs = pageBlocks.filter(block => block.properties?.koreaderLog !== undefined)
+  for (const block of runs.slice(Math.max(settings.syncLogRuns - 1, 0))) {
+    await logseq.Editor.removeBlock(block.uuid)
+  }
+}
+
+/**
+ * Finishes a sync by writing its report to the log, unless the log is turned off or a background sync
+ * did nothing worth noting, and tells the user about errors and conflicts.
+ */
+export async function finishSyncReport(report: SyncReport, settings: BookSettings, options: SyncOptions): Promise<void> {
+  if (settings.syncLogRuns > 0 && !(options.silent && isQuietReport(report))) {
+    try {
+      await writeSyncLog(report, settings)
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      console.error('Error writing the sync log:', errorDetails)
+    }
+  }
+
+  if (options.silent || (report.errors.length === 0 && report.conflicts.length === 0)) {
+    return
+  }
+
+  const problems = [
+    ...(report.errors.length > 0 ? [`${report.errors.length} error(s)`] : []),
+    ...(report.conflicts.length > 0 ? [`${report.conflicts.length} block(s) edited both in Logseq and in KOReader, kept as edited in Logseq`] : []),
+  ]
+  const details = settings.syncLogRuns > 0 ? ` See the "${SYNC_LOG_PAGE}" page.` : ''
+  logseq.UI.showMsg(`KOReader Sync: ${problems.join(' and ')}.${details}`, "warning")
+}
@@ -0,0 +1,12 @@
+export interface SyncOptions {
+  /** Ignore the fingerprints recorded by previous syncs and process every file */
+  force?: boolean
+  /** Compute and preview the sync plan instead of writing to the graph */
+  dryRun?: boolean
+  /** Run in the background: no directory prompt, no progress notification and no navigation */
+  silent?: boolean
+  /** Only sync these metadata files, by path relative to the KOReader directory; the rest are left as they are */
+  paths?: string[]
+  /** Ask for the KOReader directory even if one is remembered */
+  pickDirectory?: boolean
+}
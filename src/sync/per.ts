@@ -1,61 +1,249 @@
 import '@logseq/libs'
 import { ProgressNotification } from '../progress'
 import { getBookSettings } from '../settings'
-import { getMetadataFiles } from '../filesystem'
-import { lua_to_block } from '../metadata'
-import { BookInfo, createBookmarksSection, getOrCreateBookPage, updateIndexPage } from '../book-pages'
-import { normalizeAuthors, waitForPage } from '../utils'
+import { fileName, getMetadataFiles, hasPermission } from '../filesystem'
+import { bookmarks_section_block, lua_to_block } from '../metadata'
+import { BookInfo, bookInfo, createBookmarksSection, getOrCreateBookPage, refreshBookPageProperties } from '../book-pages'
+import { updateIndexPage } from '../index-page'
+import { hashString, truncateString, waitForPage } from '../utils'
+import { emptySyncState, fingerprintMatches, FileSyncState, loadSyncState, saveSyncState } from '../sync-state'
+import { linkHighlightsInJournal } from '../journal'
+import { importReadingStatistics } from '../statistics'
+import { syncVocabulary } from '../vocabulary'
+import { importKindleClippings } from '../kindle'
+import { CALIBRE_METADATA_FILE, importCalibreMetadata, withCalibreSeries } from '../calibre'
+import { syncCollections, updateSeriesPages } from '../collections'
+import { syncKosyncProgress } from '../kosync'
 import { syncBookmarksToPage } from './bookmarks'
+import { changedPages, syncedNotes, writeBackNotes } from './write-back'
+import { finishSyncReport, newSyncReport, SyncReport } from './log'
+import { SyncOptions } from './options'
 
-export async function syncPerPageMode(directoryHandle: any): Promise<void> {
+/**
+ * A cached book can only be skipped if its page has not been deleted since it was synced. Pages synced
+ * before `koreader-source` was recorded get it here, so the book commands can find their file.
+ */
+async function cachedBook(previous: FileSyncState, path: string): Promise<BookInfo | undefined> {
+  if (!previous.book) {
+    return undefined
+  }
+  const page = await logseq.Editor.getPage(previous.book.pageUUID)
+  if (!page) {
+    return undefined
+  }
+
+  if (page.properties?.koreaderSource !== path) {
+    await refreshBookPageProperties(page.uuid, { 'koreader-source': path })
+  }
+  return previous.book
+}
+
+/** Logs a failed step of the sync to the console and to the report */
+function reportError(report: SyncReport, source: string, e: unknown): void {
+  const errorDetails = e instanceof Error ? e.message : String(e)
+  console.error(`Error syncing ${source}:`, errorDetails)
+  report.errors.push({ source, message: errorDetails })
+}
+
+export async function syncPerPageMode(directoryHandle: any, options: SyncOptions = {}): Promise<void> {
   const settings = getBookSettings()
-  const files = await getMetadataFiles(directoryHandle)
-  const allBooks: BookInfo[] = []
+  // Calibre's files are found in the same walk of the directory
+  const listed = await getMetadataFiles(directoryHandle, settings.importCalibreMetadata ? [CALIBRE_METADATA_FILE] : [])
+  const files = listed.filter(({ path }) => fileName(path) !== CALIBRE_METADATA_FILE)
+  let allBooks: BookInfo[] = []
+  const freshPages = new Set<string>()
+  const previousState = await loadSyncState(settings)
+  const nextState = emptySyncState(settings)
   const syncProgress = new ProgressNotification(
     `Syncing KOReader Books (${files.length})...`,
-    files.length
+    files.length,
+    options.silent
   )
 
-  for (const fileHandle of files) {
+  const report = newSyncReport("per-page")
+
+  const writable = settings.writeBackNotes && await hasPermission(directoryHandle, 'readwrite')
+  if (settings.writeBackNotes && !writable) {
+    console.warn('KOReader Sync: no permission to write to the KOReader directory, notes edited in Logseq are not written back.')
+    report.errors.push({ source: "write-back", message: "no permission to write, notes edited in Logseq were not written back" })
+  }
+  // only pages edited since the last sync can hold notes to write back
+  const editedPages = writable && previousState.syncedAt !== undefined ? await changedPages(previousState.syncedAt) : undefined
+
+  for (const { path, file: fileHandle } of files) {
+    if (options.paths && !options.paths.includes(path)) {
+      // not part of this sync, but still listed on the index page
+      const previous = previousState.files[path]
+      if (previous) {
+        if (previous.book) allBooks.push(previous.book)
+        nextState.files[path] = previous
+      }
+      syncProgress.increment(1)
+      continue
+    }
+
     try {
-      const text = await fileHandle.text()
-      const { metadata } = lua_to_block(text)
+      const previous = options.force ? undefined : previousState.files[path]
+      const fingerprint = { lastModified: fileHandle.lastModified, size: fileHandle.size }
+      let text = fingerprintMatches(previous, fileHandle) ? null : await fileHandle.text()
+      let keptNotes: string[] = []
+      let unwritten = previous?.unwritten
+
+      if (writable && previous?.notes && previous.pageUUID && (!editedPages || editedPages.has(previous.pageUUID))) {
+        const writeBack = await writeBackNotes(directoryHandle, path, fileHandle, previous, settings)
+        text = writeBack.text ?? text
+        keptNotes = writeBack.conflicts
+        unwritten = writeBack.unwritten
+        report.notesWrittenBack += writeBack.applied.length
+        for (const { note, reason } of writeBack.skipped) {
+          report.skipped.push({ path, reason: `note "${truncateString(note, 40)}" was not written back: ${reason}` })
+        }
+      }
+
+      const hash = text === null ? previous!.hash : hashString(text)
+
+      if (previous && previous.hash === hash) {
+        const book = await cachedBook(previous, path)
+        if (book || !previous.book) {
+          if (book) {
+            allBooks.push(book)
+            report.unchanged.push(book.title)
+          }
+          nextState.files[path] = { ...previous, ...fingerprint, unwritten }
+          syncProgress.increment(1)
+          continue
+        }
+      }
+
+      const { metadata } = lua_to_block(text ?? await fileHandle.text())
 
       if (metadata && metadata.doc_props) {
         const hasAnnotations = metadata.annotations && metadata.annotations.length > 0
         const hasBookmarks = metadata.bookmarks && metadata.bookmarks.length > 0
 
         if (!hasAnnotations && !hasBookmarks) {
+          report.skipped.push({ path, reason: "no highlights or bookmarks" })
+          nextState.files[path] = { ...fingerprint, hash }
           syncProgress.increment(1)
           continue
         }
 
-        const page = await getOrCreateBookPage(metadata, settings)
-        const bookmarksUUID = await createBookmarksSection(page.uuid)
+        const { page, created } = await getOrCreateBookPage(metadata, settings, path)
+        const bookmarksUUID = await createBookmarksSection(page.uuid, bookmarks_section_block(metadata, settings))
 
-        await syncBookmarksToPage(metadata, page.uuid, bookmarksUUID, settings)
+        await syncBookmarksToPage(metadata, page.uuid, bookmarksUUID, settings, keptNotes, report)
 
-        allBooks.push({
-          title: metadata.doc_props.title || "Untitled Book",
-          authors: normalizeAuthors(metadata.doc_props.authors),
-          pageName: page.originalName as string,
-          pageUUID: page.uuid,
-          syncedAt: new Date(),
-        })
+        const book = bookInfo(metadata, page, settings)
+        allBooks.push(book)
+        if (created) {
+          report.created.push(book.title)
+        } else {
+          report.updated.push(book.title)
+        }
+        freshPages.add(page.uuid)
+        nextState.files[path] = {
+          ...fingerprint, hash, pageUUID: page.uuid, book,
+          ...(settings.writeBackNotes ? { notes: syncedNotes(metadata, settings, keptNotes, previous?.notes), unwritten } : {}),
+        }
 
         syncProgress.updateMessage(`Syncing: ${metadata.doc_props.title || "Untitled Book"} (${syncProgress.current + 1}/${files.length})`)
       }
     } catch (e) {
-      const errorDetails = e instanceof Error ? e.message : String(e)
-      console.error(`Error syncing ${fileHandle.name}:`, errorDetails)
+      reportError(report, path, e)
     }
 
     syncProgress.increment(1)
   }
 
+  if (settings.importKindleClippings) {
+    // also when syncing single books, since one may be a Kindle book; an unchanged file is not read
+    try {
+      nextState.kindle = await importKindleClippings(
+        directoryHandle, allBooks, settings, options.force ? undefined : previousState.kindle, report
+      )
+    } catch (e) {
+      reportError(report, "Kindle clippings", e)
+      nextState.kindle = previousState.kindle
+    }
+    allBooks.push(...(nextState.kindle?.books ?? []))
+  }
+
+  const booksByPath = Object.entries(nextState.files).flatMap(([path, state]) => state.book ? [{ path, book: state.book }] : [])
+
+  if (settings.importCalibreMetadata) {
+    try {
+      const opfFiles = listed.filter(({ path }) => fileName(path) === CALIBRE_METADATA_FILE)
+      nextState.calibre = await importCalibreMetadata(opfFiles, booksByPath, freshPages, options.force ? undefined : previousState.calibre)
+      if (opfFiles.length === 0 && nextState.calibre !== previousState.calibre) {
+        // reported once, until the files appear
+        report.skipped.push({ path: CALIBRE_METADATA_FILE, reason: "no Calibre metadata files in the KOReader directory" })
+      }
+    } catch (e) {
+      reportError(report, "Calibre metadata", e)
+      nextState.calibre = previousState.calibre
+    }
+    allBooks = withCalibreSeries(allBooks, nextState.calibre)
+  }
+
+  if (settings.seriesAndCollectionPages) {
+    try {
+      await updateSeriesPages(allBooks, settings)
+      nextState.collections = await syncCollections(
+        directoryHandle, booksByPath, freshPages, settings, options.force ? undefined : previousState.collections
+      )
+    } catch (e) {
+      reportError(report, "series and collection pages", e)
+      nextState.collections = previousState.collections
+    }
+  }
+
+  if (settings.journalHighlights) {
+    try {
+      nextState.highlightJournal = await linkHighlightsInJournal(settings, previousState.highlightJournal, options.force)
+    } catch (e) {
+      reportError(report, "highlights in journal", e)
+      nextState.highlightJournal = previousState.highlightJournal
+    }
+  }
+
+  if (settings.importReadingStatistics) {
+    try {
+      nextState.statistics = await importReadingStatistics(
+        directoryHandle, allBooks, freshPages, settings, options.force ? undefined : previousState.statistics
+      )
+    } catch (e) {
+      reportError(report, "reading statistics", e)
+      nextState.statistics = previousState.statistics
+    }
+  }
+
+  if (settings.kosyncServer) {
+    try {
+      nextState.kosync = await syncKosyncProgress(allBooks, freshPages, settings, options.force ? undefined : previousState.kosync)
+    } catch (e) {
+      reportError(report, "kosync progress", e)
+      nextState.kosync = previousState.kosync
+    }
+  }
+
+  if (settings.syncVocabulary) {
+    try {
+      nextState.vocabulary = await syncVocabulary(directoryHandle, allBooks, settings, options.force ? undefined : previousState.vocabulary)
+    } catch (e) {
+      reportError(report, "vocabulary", e)
+      nextState.vocabulary = previousState.vocabulary
+    }
+  }
+
   await updateIndexPage(allBooks, settings)
+  // books left out of a partial sync, or of one without write permission, were not looked at for edited notes
+  nextState.syncedAt = writable && !options.paths ? Date.now() : previousState.syncedAt
+  await saveSyncState(settings, nextState)
   syncProgress.destruct()
 
+  await finishSyncReport(report, settings, options)
+  if (options.silent) return
+
   const indexPageName = settings.indexPageName
   logseq.App.pushState('page', { name: indexPageName })
   await waitForPage(indexPageName)
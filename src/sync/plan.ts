@@ -0,0 +1,269 @@
+import '@logseq/libs'
+import { BlockEntity, IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from '../settings'
+import { isArchivedSection, isBookmarksSection } from '../book-pages'
+import { parseHeading } from '../format'
+import { MetadataFile } from '../filesystem'
+import { existing_book_key, KOReaderMetadata, lua_to_block, metadata_to_bookmark_blocks } from '../metadata'
+import { fingerprintMatches, SyncState } from '../sync-state'
+import { generatePageName, hashString, sanitizePageName } from '../utils'
+import { bookmarkNeedsUpdate, bookmarkQuote, contentChange, writtenNoteHash } from './bookmarks'
+import { SyncOptions } from './options'
+
+export type SyncOperationType =
+  | 'create-page'
+  | 'add-annotation'
+  | 'update-annotation'
+  | 'update-note'
+  | 'remove-annotation'
+  | 'conflict'
+  | 'orphan'
+
+export const SYNC_OPERATION_TYPES: SyncOperationType[] = [
+  'create-page',
+  'add-annotation',
+  'update-annotation',
+  'update-note',
+  'remove-annotation',
+  'conflict',
+  'orphan',
+]
+
+export interface SyncOperation {
+  type: SyncOperationType
+  /** Title of the book the operation applies to */
+  book: string
+  /** The annotation's quote, or the metadata file path of an orphaned book */
+  detail?: string
+}
+
+/** An annotation block as it currently exists in the graph. */
+export interface ExistingAnnotation {
+  content: string
+  properties: Record<string, unknown>
+  note?: string
+  noteProperties?: Record<string, unknown>
+}
+
+export interface BookPlanSummary {
+  book: string
+  counts: Record<SyncOperationType, number>
+}
+
+/**
+ * Works out what syncing `bookmarks` over the `existing` annotations of a book would do,
+ * matching them the same way `reconcileBookmark` does. Single-page mode never removes
+ * annotations that disappeared from KOReader, hence `removeMissing`.
+ */
+export function planBookmarks(
+  book: string,
+  existing: ExistingAnnotation[],
+  bookmarks: IBatchBlock[],
+  settings: BookSettings,
+  removeMissing: boolean
+): SyncOperation[] {
+  const operations: SyncOperation[] = []
+  const byId = new Map<string, ExistingAnnotation>()
+  const byQuote = new Map<string, ExistingAnnotation>()
+
+  for (const annotation of existing) {
+    const quote = bookmarkQuote(annotation.content)
+    if (!settings.syncPageBookmarks && quote.trim() === "Page bookmark") {
+      if (settings.removedAnnotations !== "leave") {
+        operations.push({ type: 'remove-annotation', book, detail: quote })
+      }
+      continue
+    }
+
+    const id = annotation.properties.koreaderId
+    if (id) {
+      byId.set(String(id), annotation)
+    } else {
+      byQuote.set(quote, annotation)
+    }
+  }
+
+  for (const bookmark of bookmarks) {
+    const id = String(bookmark.properties?.['koreader-id'])
+    const quote = bookmarkQuote(bookmark.content)
+
+    let match = byId.get(id)
+    byId.delete(id)
+    if (!match && byQuote.has(quote)) {
+      match = byQuote.get(quote)
+      byQuote.delete(quote)
+    }
+
+    if (!match) {
+      operations.push({ type: 'add-annotation', book, detail: quote })
+      continue
+    }
+
+    const change = contentChange(match.content, match.properties.koreaderHash, bookmark)
+    if (change === "both") {
+      operations.push({ type: 'conflict', book, detail: quote })
+    } else if (change !== "user" && bookmarkNeedsUpdate(match.content, match.properties, bookmark)) {
+      operations.push({ type: 'update-annotation', book, detail: quote })
+    }
+
+    const note = bookmark.children?.[0]
+    if (match.note === undefined) {
+      if (note) operations.push({ type: 'update-note', book, detail: quote })
+      continue
+    }
+    const noteChange = contentChange(match.note, writtenNoteHash(match.noteProperties, match.properties), note ?? { content: '' })
+    if (noteChange === "both") {
+      operations.push({ type: 'conflict', book, detail: quote })
+    } else if (noteChange === "koreader") {
+      operations.push({ type: 'update-note', book, detail: quote })
+    }
+  }
+
+  if (removeMissing) {
+    for (const annotation of [...byId.values(), ...byQuote.values()]) {
+      if (annotation.properties.koreaderStatus === "deleted") continue
+      operations.push({ type: 'remove-annotation', book, detail: bookmarkQuote(annotation.content) })
+    }
+  }
+
+  return operations
+}
+
+/** Reports books that were synced before but whose metadata file is gone; sync leaves their pages alone. */
+export function planOrphans(files: MetadataFile[], state: SyncState): SyncOperation[] {
+  const present = new Set(files.map(file => file.path))
+
+  return Object.entries(state.files)
+    .filter(([path, entry]) => !present.has(path) && (entry.book || entry.blockUUID))
+    .map(([path, entry]) => ({ type: 'orphan' as const, book: entry.book?.title ?? path, detail: path }))
+}
+
+/** Counts the operations of each type per book, in the order books first appear. */
+export function summarizePlan(operations: SyncOperation[]): BookPlanSummary[] {
+  const summaries = new Map<string, BookPlanSummary>()
+
+  for (const operation of operations) {
+    let summary = summaries.get(operation.book)
+    if (!summary) {
+      summary = {
+        book: operation.book,
+        counts: Object.fromEntries(SYNC_OPERATION_TYPES.map(type => [type, 0])) as Record<SyncOperationType, number>,
+      }
+      summaries.set(operation.book, summary)
+    }
+    summary.counts[operation.type] += 1
+  }
+
+  return [...summaries.values()]
+}
+
+function existingAnnotations(section: BlockEntity): ExistingAnnotation[] {
+  const annotations: ExistingAnnotation[] = []
+
+  for (const child of section.children || []) {
+    if (Array.isArray(child)) continue
+
+    const blocks = parseHeading(child.content, child.properties)?.level === 4 ? child.children || [] : [child]
+    for (const block of blocks) {
+      if (Array.isArray(block)) continue
+
+      const note = block.children?.[0]
+      annotations.push({
+        content: block.content,
+        properties: block.properties || {},
+        note: note && !Array.isArray(note) ? note.content : undefined,
+        noteProperties: note && !Array.isArray(note) ? note.properties : undefined,
+      })
+    }
+  }
+
+  return annotations
+}
+
+function findSection(blocks: Array<BlockEntity | unknown>, isSection: (block: unknown) => boolean): BlockEntity | undefined {
+  return blocks.find((block): block is BlockEntity => isSection(block))
+}
+
+/** The existing annotations of a book page, or null if the page does not exist yet. */
+async function perPageAnnotations(metadata: KOReaderMetadata, settings: BookSettings): Promise<ExistingAnnotation[] | null> {
+  const page = await logseq.Editor.getPage(sanitizePageName(generatePageName(metadata, settings)))
+  if (!page) {
+    return null
+  }
+
+  const blocks = await logseq.Editor.getPageBlocksTree(page.uuid) || []
+  return [findSection(blocks, isBookmarksSection), findSection(blocks, isArchivedSection)]
+    .flatMap(section => section ? existingAnnotations(section) : [])
+}
+
+/** Indexes the book blocks on the single sync page by the same `koreader-book` key `syncSinglePageMode` uses. */
+async function singlePageBooks(settings: BookSettings): Promise<Map<string, ExistingAnnotation[]>> {
+  const books = new Map<string, ExistingAnnotation[]>()
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(settings.syncPageName) || []
+  const targetBlock = pageBlocks.find(block => block?.content.includes("LKRS"))
+
+  for (const book of targetBlock?.children || []) {
+    if (Array.isArray(book)) continue
+
+    const key = existing_book_key(book.content, book.properties)
+    if (key === null) continue
+
+    const section = findSection(book.children || [], isBookmarksSection)
+    books.set(key, section ? existingAnnotations(section) : [])
+  }
+
+  return books
+}
+
+/**
+ * Computes everything a sync would do, without writing to the graph. Files the sync would skip
+ * as unchanged are skipped here too.
+ */
+export async function planSync(
+  files: MetadataFile[],
+  settings: BookSettings,
+  state: SyncState,
+  options: SyncOptions = {}
+): Promise<SyncOperation[]> {
+  const perPage = settings.syncMode === "per-page"
+  const operations: SyncOperation[] = []
+  const existingSinglePageBooks = perPage ? null : await singlePageBooks(settings)
+
+  for (const { path, file } of files) {
+    if (options.paths && !options.paths.includes(path)) continue
+
+    try {
+      const previous = options.force ? undefined : state.files[path]
+      if (fingerprintMatches(previous, file)) continue
+
+      const text = await file.text()
+      if (previous && previous.hash === hashString(text)) continue
+
+      const { metadata, block } = lua_to_block(text)
+      if (!block) continue
+
+      const hasAnnotations = metadata.annotations && metadata.annotations.length > 0
+      const hasBookmarks = metadata.bookmarks && metadata.bookmarks.length > 0
+      if (perPage && !hasAnnotations && !hasBookmarks) continue
+
+      const title = metadata.doc_props.title || "Untitled Book"
+      const existing = perPage
+        ? await perPageAnnotations(metadata, settings)
+        : existingSinglePageBooks!.get(String(block.properties?.['koreader-book'])) ?? null
+
+      if (existing === null) {
+        operations.push({ type: 'create-page', book: title, detail: path })
+      }
+      const removeMissing = perPage && settings.removedAnnotations !== "leave"
+      operations.push(...planBookmarks(title, existing ?? [], metadata_to_bookmark_blocks(metadata, settings), settings, removeMissing))
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      console.error(`Error planning sync of ${file.name}:`, errorDetails)
+    }
+  }
+
+  if (!options.paths) {
+    operations.push(...planOrphans(files, state))
+  }
+  return operations
+}
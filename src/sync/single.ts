@@ -1,23 +1,36 @@
 import '@logseq/libs'
-import { BlockEntity, BlockUUID } from '@logseq/libs/dist/LSPlugin'
-import { get as getStorage, set as setStorage } from 'idb-keyval'
+import { BlockEntity, PageEntity } from '@logseq/libs/dist/LSPlugin'
 import { ProgressNotification } from '../progress'
 import { getBookSettings } from '../settings'
-import { getMetadataFiles, verifyPermission } from '../filesystem'
-import { lua_to_block } from '../metadata'
-import { insertBlockTree } from '../block-tree'
-import { showErrorToUser, waitForPage } from '../utils'
-
-export async function syncSinglePageMode(directoryHandle: any): Promise<void> {
+import { getMetadataFiles } from '../filesystem'
+import { isBookmarksSection } from '../book-pages'
+import { formatBlock } from '../format'
+import { existing_book_key, lua_to_block } from '../metadata'
+import { childUUIDs, insertBlockTree } from '../block-tree'
+import { hashString, showErrorToUser, waitForPage } from '../utils'
+import { emptySyncState, fingerprintMatches, loadSyncState, saveSyncState } from '../sync-state'
+import { syncVocabulary } from '../vocabulary'
+import { collectExistingBookmarks, reconcileBookmark } from './bookmarks'
+import { finishSyncReport, newSyncReport } from './log'
+import { SyncOptions } from './options'
+
+export async function syncSinglePageMode(directoryHandle: any, options: SyncOptions = {}): Promise<void> {
   const settings = getBookSettings()
   const pageName = settings.syncPageName
 
-  logseq.App.pushState('page', { name: pageName })
-
-  const currentPage = await waitForPage(pageName)
-  const syncTimeLabel = (new Date()).toLocaleString()
+  let currentPage: BlockEntity | PageEntity
+  if (options.silent) {
+    // a background sync must not navigate away from whatever the user is looking at
+    currentPage = await logseq.Editor.getPage(pageName)
+      ?? (await logseq.Editor.createPage(pageName, {}, { redirect: false }))!
+  } else {
+    logseq.App.pushState('page', { name: pageName })
+    currentPage = await waitForPage(pageName)
+  }
+  const report = newSyncReport("single-page")
+  const syncTimeLabel = report.started.toLocaleString()
 
-  const pageBlocksTree = await logseq.Editor.getCurrentPageBlocksTree()
+  const pageBlocksTree = await logseq.Editor.getPageBlocksTree(currentPage.uuid) || []
 
   let targetBlock: BlockEntity | null = null
   let warningBlockFound = false
@@ -37,59 +50,27 @@ export async function syncSinglePageMode(directoryHandle: any): Promise<void> {
     }, { sibling: false })
   }
 
-  const original_content = targetBlock?.content
+  const processing = formatBlock({ content: `# ⚙ LKRS: Processing KOReader Annotations ...` }, settings.format)
   if (targetBlock === null || targetBlock === undefined) {
-    targetBlock = await logseq.Editor.insertBlock(currentPage.uuid, '🚀 LKRS: Please Select KOReader Metadata Directory ...',)
+    targetBlock = await logseq.Editor.insertBlock(currentPage.uuid, processing.content, { properties: processing.properties })
   } else {
-    await logseq.Editor.updateBlock(targetBlock!.uuid, `🚀 LKRS: Please Select KOReader Metadata Directory ...`)
-  }
-
-  let directoryHandleFinal: any = await getStorage('logseq_koreader_sync__directoryHandle')
-
-  let permission
-  if (directoryHandleFinal) {
-    permission = await verifyPermission(directoryHandleFinal)
+    await logseq.Editor.updateBlock(targetBlock!.uuid, processing.content, { properties: processing.properties })
   }
 
-  if (!directoryHandleFinal || !permission) {
-    try {
-      directoryHandleFinal = await window.showDirectoryPicker()
-    } catch (e) {
-      if (original_content) {
-        await logseq.Editor.updateBlock(targetBlock!.uuid, original_content)
-      } else {
-        await logseq.Editor.updateBlock(targetBlock!.uuid, "# ❌ LKRS: Sync cancelled by user.")
-      }
-      const errorDetails = e instanceof Error ? e.message : String(e)
-      await showErrorToUser("Failed to select KOReader directory. Please try again.", `Directory selection error: ${errorDetails}`)
-      return
-    }
-
-    if (logseq.settings?.rememberDirectory) {
-      setStorage('logseq_koreader_sync__directoryHandle', directoryHandleFinal)
-    }
-  }
-
-  if (!directoryHandleFinal) {
-    await showErrorToUser("No KOReader directory selected.", "Directory handle is null or undefined. Please select a valid KOReader metadata directory.")
-    return
-  }
-
-  await logseq.Editor.updateBlock(targetBlock!.uuid, `# ⚙ LKRS: Processing KOReader Annotations ...`)
-
-  const files = await getMetadataFiles(directoryHandleFinal)
+  const files = await getMetadataFiles(directoryHandle)
   const fileCount = files.length
 
   let ret
   try {
     ret = await logseq.DB.datascriptQuery(`
     [
-        :find (pull ?b [:block/content :block/uuid]) ?authors
+        :find (pull ?b [:block/content :block/uuid]) ?authors ?book
         :where
           [?b :block/parent ?p]
           [?p :block/uuid #uuid "${targetBlock!.uuid}"]
           [?b :block/properties ?props]
-          [(get ?props :authors) ?authors]
+          [(get ?props :authors "") ?authors]
+          [(get ?props :koreader-book "") ?book]
     ]
     `)
   } catch (e) {
@@ -98,17 +79,10 @@ export async function syncSinglePageMode(directoryHandle: any): Promise<void> {
     return
   }
 
-  const titleMatch: RegExp = /##\s+(.*?)\n/
-
   const existingBlocks = {}
   for (const block of ret) {
-    const authors = block[1]
-    const content = block[0]["content"]
-    const match = content?.match(titleMatch)
-    const title = match[1]
-
-    const key = authors + "___" + title
-    if (!(key in existingBlocks)) {
+    const key = existing_book_key(block[0]["content"] ?? '', { authors: block[1] || undefined, koreaderBook: block[2] })
+    if (key !== null && !(key in existingBlocks)) {
       const block_uuid = block[0]["uuid"]
       if (block_uuid) {
         existingBlocks[key] = block_uuid
@@ -116,25 +90,50 @@ export async function syncSinglePageMode(directoryHandle: any): Promise<void> {
     }
   }
 
-  const syncProgress = new ProgressNotification("Syncing Koreader Annotations to Logseq:", fileCount)
+  const syncProgress = new ProgressNotification("Syncing Koreader Annotations to Logseq:", fileCount, options.silent)
 
-  for (const fileHandle of files) {
-    const text = await fileHandle.text()
-    const { block: parsed_block } = lua_to_block(text)
+  const previousState = options.force ? emptySyncState(settings) : await loadSyncState(settings)
+  const nextState = emptySyncState(settings)
 
-    if (parsed_block) {
-      let key: string
-      if (parsed_block.properties!.authors === undefined) {
-        key = "___" + parsed_block.content.substring(3)
-      } else {
-        key = parsed_block.properties!.authors + "___" + parsed_block.content.substring(3)
-      }
+  for (const { path, file: fileHandle } of files) {
+    const previous = previousState.files[path]
+    const fingerprint = { lastModified: fileHandle.lastModified, size: fileHandle.size }
+    const text = fingerprintMatches(previous, fileHandle) ? null : await fileHandle.text()
+    const hash = text === null ? previous!.hash : hashString(text)
+
+    if (previous && previous.hash === hash && (!previous.blockUUID || await logseq.Editor.getBlock(previous.blockUUID))) {
+      nextState.files[path] = { ...previous, ...fingerprint }
+      report.unchanged.push(path)
+      syncProgress.increment(1)
+      continue
+    }
+
+    let parsed
+    try {
+      parsed = lua_to_block(text ?? await fileHandle.text())
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      console.error(`Error parsing ${path}:`, errorDetails)
+      report.errors.push({ source: path, message: errorDetails })
+      syncProgress.increment(1)
+      continue
+    }
+    const { block: parsed_block, metadata } = parsed
+
+    if (!parsed_block) {
+      report.skipped.push({ path, reason: "no document properties" })
+      nextState.files[path] = { ...fingerprint, hash }
+    } else {
+      const key = String(parsed_block.properties!['koreader-book'])
+      const title = metadata.doc_props.title || "Untitled Book"
 
       if (key in existingBlocks) {
         const existing_block = await logseq.Editor.getBlock(existingBlocks[key])
         if (existing_block === null) {
           const errorDetails = `Block UUID ${existingBlocks[key]} not found during sync.`
           await showErrorToUser("Sync warning: A previously synced block could not be found.", errorDetails)
+          report.errors.push({ source: path, message: errorDetails })
+          syncProgress.increment(1)
           continue
         }
 
@@ -144,7 +143,7 @@ export async function syncSinglePageMode(directoryHandle: any): Promise<void> {
         for (const child of existing_block!.children!) {
           const child_block = await logseq.Editor.getBlock(child[1] as BlockEntity)
 
-          if (child_block!.content === "### Bookmarks") {
+          if (isBookmarksSection(child_block)) {
             existing_bookmark_blocks = child_block!.children
             existing_bookmark_block_uuid = child[1]
 
@@ -155,69 +154,44 @@ export async function syncSinglePageMode(directoryHandle: any): Promise<void> {
         if (existing_bookmark_blocks === undefined) {
           const errorDetails = `No bookmarks section found for block ${existingBlocks[key]}. The book may have been corrupted or manually edited.`
           await showErrorToUser("Sync warning: Bookmarks section missing for a synced book.", errorDetails)
+          report.errors.push({ source: path, message: errorDetails })
+          syncProgress.increment(1)
           continue
         }
 
-        const existing_bookmarks = {}
-        for (const bookmark of existing_bookmark_blocks) {
-          const bookmark_block = await logseq.Editor.getBlock(bookmark[1] as BlockEntity)
-
-          if (!bookmark_block?.content) {
-            continue
-          }
-
-          const isPageBookmark = bookmark_block.content.trim() === "> Page bookmark"
-          if (!settings.syncPageBookmarks && isPageBookmark) {
-            await logseq.Editor.removeBlock(bookmark[1] as BlockUUID)
-            continue
-          }
-
-          const content_start = bookmark_block!.content!.indexOf("\n> ")
-          const content = bookmark_block!.content!.substring(content_start + 3).replace('-', '\\-')
-
-          existing_bookmarks[content] = bookmark[1]
-        }
+        const existing_bookmarks = await collectExistingBookmarks(childUUIDs(existing_bookmark_blocks), existing_bookmark_block_uuid, settings)
 
         for (const bookmark of parsed_block.children![0].children!) {
-          const key = bookmark.content.substring(2)
-
-          let parsed_personal_note = false
-          if (bookmark.children && bookmark.children.length > 0) {
-            parsed_personal_note = true
-          }
-
-          if (key in existing_bookmarks) {
-            const existing_bookmark = await logseq.Editor.getBlock(existing_bookmarks[key])
-
-            if (existing_bookmark!.children && existing_bookmark!.children!.length > 0) {
-              const existing_note = existing_bookmark!.children![0]
-
-              if (!parsed_personal_note) {
-                await logseq.Editor.removeBlock(existing_note[1] as BlockUUID)
-              } else {
-                const existing_note_block = await logseq.Editor.getBlock(existing_note[1] as BlockEntity)
-
-                if (existing_note_block!.content !== bookmark.children![0].content) {
-                  await logseq.Editor.updateBlock(existing_note[1] as string, bookmark.children![0].content)
-                }
-              }
-            } else {
-              if (parsed_personal_note) {
-                await insertBlockTree(existing_bookmark!.uuid, bookmark.children![0], { sibling: false })
-              }
-            }
-          } else {
-            await insertBlockTree(existing_bookmark_block_uuid, bookmark, { sibling: false })
-          }
+          await reconcileBookmark(existing_bookmarks, bookmark, existing_bookmark_block_uuid, false, report, existing_bookmark_block_uuid, settings)
         }
+        // recorded only once reconciled, so a book that failed is tried again next time
+        nextState.files[path] = { ...fingerprint, hash, blockUUID: existing_block.uuid }
+        report.updated.push(title)
       } else {
-        await insertBlockTree(targetBlock!.uuid, parsed_block, { sibling: false })
+        const inserted = await insertBlockTree(targetBlock!.uuid, parsed_block, { sibling: false })
+        nextState.files[path] = { ...fingerprint, hash, blockUUID: inserted?.uuid }
+        report.created.push(title)
       }
     }
     syncProgress.increment(1)
   }
 
-  await logseq.Editor.updateBlock(targetBlock!.uuid, `# 📚 LKRS: KOReader - Sync Initiated at ${syncTimeLabel}`)
+  if (settings.syncVocabulary) {
+    try {
+      nextState.vocabulary = await syncVocabulary(directoryHandle, [], settings, previousState.vocabulary)
+    } catch (e) {
+      const errorDetails = e instanceof Error ? e.message : String(e)
+      console.error('Error syncing vocabulary:', errorDetails)
+      report.errors.push({ source: "vocabulary", message: errorDetails })
+      nextState.vocabulary = previousState.vocabulary
+    }
+  }
+
+  await saveSyncState(settings, nextState)
+  const synced = formatBlock({ content: `# 📚 LKRS: KOReader - Sync Initiated at ${syncTimeLabel}` }, settings.format)
+  await logseq.Editor.updateBlock(targetBlock!.uuid, synced.content, { properties: synced.properties })
 
   syncProgress.destruct()
+
+  await finishSyncReport(report, settings, options)
 }
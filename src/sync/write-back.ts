@@ -0,0 +1,219 @@
+import '@logseq/libs'
+import { BlockEntity, BlockUUIDTuple } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from '../settings'
+import { isBookmarksSection } from '../book-pages'
+import { writeFileWithBackup } from '../filesystem'
+import { LuaValue, parseLuaTable, serializeLuaTable } from '../lua'
+import { annotation_id, annotation_notes, KOReaderAnnotation, KOReaderMetadata } from '../metadata'
+import { FileSyncState } from '../sync-state'
+import { stripProperties } from '../utils'
+
+/** Stands in for the note while rendering the note template, to find the text around it */
+const NOTE_MARKER = '\u0000'
+
+/** UUIDs of the pages with a block changed in Logseq after `since`, a timestamp in milliseconds */
+export async function changedPages(since: number): Promise<Set<string>> {
+  const rows: Array<[string]> = await logseq.DB.datascriptQuery(`
+    [
+        :find ?uuid
+        :where
+          [?b :block/updated-at ?updated]
+          [(> ?updated ${since})]
+          [?b :block/page ?p]
+          [?p :block/uuid ?uuid]
+    ]
+  `) || []
+  return new Set(rows.map(([uuid]) => String(uuid)))
+}
+
+/**
+ * Finds the note blocks edited in Logseq since the last sync: the first child of each KOReader annotation
+ * block, wherever its content differs from `synced`. A note added under a highlight that had none counts
+ * too; a note block that was deleted does not, nor does one still holding an edit that could not be written back.
+ *
+ * @param unwritten edits that could not be written back before, keyed by `koreader-id`
+ * @returns the edited note block contents, keyed by `koreader-id`
+ */
+export async function editedNotes(
+  pageUUID: string,
+  synced: Record<string, string>,
+  unwritten: Record<string, string> = {}
+): Promise<Record<string, string>> {
+  const pageBlocks = await logseq.Editor.getPageBlocksTree(pageUUID) || []
+  const section = pageBlocks.find(isBookmarksSection)
+  const edits: Record<string, string> = {}
+
+  const collect = (blocks: Array<BlockEntity | BlockUUIDTuple>) => {
+    for (const block of blocks) {
+      if (Array.isArray(block)) continue
+
+      const id = block.properties?.koreaderId
+      if (id === undefined) {
+        // a chapter heading
+        collect(block.children || [])
+        continue
+      }
+
+      const note = block.children?.[0]
+      if ((block.properties?.source ?? "koreader") !== "koreader" || !note || Array.isArray(note)) continue
+
+      const content = stripProperties(note.content)
+      if (content && content !== (synced[String(id)] ?? '') && content !== unwritten[String(id)]) {
+        edits[String(id)] = content
+      }
+    }
+  }
+  collect(section?.children || [])
+
+  return edits
+}
+
+/**
+ * Reads the note back out of an edited note block by taking off what the note template puts around it.
+ * Returns null if the template does not show the note exactly once.
+ */
+function noteFromBlock(content: string, metadata: KOReaderMetadata, annotation: KOReaderAnnotation, settings: BookSettings): string | null {
+  const marked = annotation_notes({ ...metadata, annotations: [{ ...annotation, note: NOTE_MARKER }] }, settings)
+  const parts = marked[annotation_id(metadata, annotation)]?.split(NOTE_MARKER)
+  if (parts?.length !== 2) {
+    return null
+  }
+
+  const [before, after] = parts
+  const note = content.startsWith(before) && content.endsWith(after) && content.length >= before.length + after.length
+    ? content.slice(before.length, content.length - after.length)
+    : content
+  // the first hyphen of a note is escaped when it is rendered
+  return note.replace('\\-', '-')
+}
+
+/** KOReader's `datetime` format, in local time */
+function koreaderDatetime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+export interface NoteEdits {
+  /** Annotations whose note was replaced by the one edited in Logseq */
+  applied: string[]
+  /** Annotations whose note was also changed in KOReader since the last sync; neither side is changed */
+  conflicts: string[]
+  /** Edits that could not be written back, with the edited note block content and why */
+  skipped: Array<{ id: string, note: string, reason: string }>
+}
+
+/**
+ * Puts notes edited in Logseq into the annotations of `metadata`, marking them updated as KOReader does.
+ * Only the `annotations` table of KOReader 2024.07 and later is written to; edits of notes in the older
+ * `bookmarks` table are skipped.
+ *
+ * @param edits edited note block contents, keyed by `koreader-id`
+ * @param synced the note block contents of the last sync
+ */
+export function applyNoteEdits(
+  metadata: KOReaderMetadata,
+  edits: Record<string, string>,
+  synced: Record<string, string>,
+  settings: BookSettings,
+  now: Date = new Date()
+): NoteEdits {
+  const result: NoteEdits = { applied: [], conflicts: [], skipped: [] }
+  const current = annotation_notes(metadata, settings)
+  const unmatched = new Set(Object.keys(edits))
+
+  for (const annotation of metadata.annotations || []) {
+    const id = annotation_id(metadata, annotation)
+    unmatched.delete(id)
+    const edit = edits[id]
+    if (edit === undefined || edit === (current[id] ?? '')) continue
+
+    if ((current[id] ?? '') !== (synced[id] ?? '')) {
+      result.conflicts.push(id)
+      continue
+    }
+
+    const note = noteFromBlock(edit, metadata, annotation, settings)
+    if (note === null) {
+      result.skipped.push({ id, note: edit, reason: "the note template does not show the note exactly once" })
+      continue
+    }
+
+    annotation.note = note
+    annotation.datetime_updated = koreaderDatetime(now)
+    result.applied.push(id)
+  }
+
+  for (const id of unmatched) {
+    if (edits[id] === (current[id] ?? '')) continue
+    const reason = metadata.annotations
+      ? "its highlight is no longer in KOReader"
+      : "KOReader keeps this book's notes in the bookmarks table of older versions, which is not written to"
+    result.skipped.push({ id, note: edits[id], reason })
+  }
+
+  return result
+}
+
+export interface WriteBack extends NoteEdits {
+  /** The new text of the metadata file, or null if it was left alone */
+  text: string | null
+  /** Edits that could not be written back, this time or before, to leave out of the next sync's */
+  unwritten: Record<string, string>
+}
+
+/**
+ * Writes the notes edited on a book page since `previous` was synced back into its metadata file,
+ * keeping a copy of the file as it was. Notes changed on both sides are reported as conflicts instead,
+ * and edits that cannot be written back are skipped once.
+ */
+export async function writeBackNotes(
+  directoryHandle: any,
+  path: string,
+  file: File,
+  previous: FileSyncState,
+  settings: BookSettings
+): Promise<WriteBack> {
+  const edits = await editedNotes(previous.pageUUID!, previous.notes || {}, previous.unwritten)
+  if (Object.keys(edits).length === 0) {
+    return { text: null, applied: [], conflicts: [], skipped: [], unwritten: previous.unwritten || {} }
+  }
+
+  const original = await file.text()
+  const metadata = parseLuaTable(original) as unknown as KOReaderMetadata
+  // once every highlight is removed, KOReader leaves an empty table, which reads as an object
+  if (metadata.annotations && !Array.isArray(metadata.annotations)) {
+    metadata.annotations = []
+  }
+  const result = applyNoteEdits(metadata, edits, previous.notes || {}, settings)
+  const unwritten = { ...previous.unwritten, ...Object.fromEntries(result.skipped.map(({ id, note }) => [id, note])) }
+  if (result.applied.length === 0) {
+    return { ...result, text: null, unwritten }
+  }
+
+  // KOReader starts its files with a comment, which is kept
+  const header = original.match(/^(?:--.*\n)*/)![0]
+  const text = header + serializeLuaTable(metadata as unknown as LuaValue)
+  await writeFileWithBackup(directoryHandle, path, text)
+  return { ...result, text, unwritten }
+}
+
+/**
+ * The note block contents to remember for the next sync. Notes in conflict keep what was remembered
+ * before, so they are reported again until both sides agree.
+ */
+export function syncedNotes(
+  metadata: KOReaderMetadata,
+  settings: BookSettings,
+  conflicts: string[] = [],
+  previous: Record<string, string> = {}
+): Record<string, string> {
+  const notes = annotation_notes(metadata, settings)
+  for (const id of conflicts) {
+    if (id in previous) {
+      notes[id] = previous[id]
+    } else {
+      delete notes[id]
+    }
+  }
+  return notes
+}
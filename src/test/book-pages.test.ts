@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { refreshBookPageProperties } from '../book-pages';
+import { logseq as mockLogseq } from './setup';
+
+describe('Book pages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('refreshBookPageProperties', () => {
+    it('should leave properties alone that Logseq reads back as parsed values', async () => {
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{
+        uuid: 'props-uuid',
+        'preBlock?': true,
+        properties: { koreaderSource: 'Dune.sdr/metadata.epub.lua', series: ['Dune Chronicles'], seriesIndex: 1, tags: ['Science Fiction', 'Classics'] },
+      }]);
+
+      await refreshBookPageProperties('page-uuid', {
+        'koreader-source': 'Dune.sdr/metadata.epub.lua',
+        'series': '[[Dune Chronicles]]',
+        'series-index': 1,
+        'tags': '[[Science Fiction]], [[Classics]]',
+      });
+
+      expect(mockLogseq.Editor.upsertBlockProperty).not.toHaveBeenCalled();
+    });
+
+    it('should write changed properties and remove the ones cleared since', async () => {
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{
+        uuid: 'props-uuid',
+        'preBlock?': true,
+        properties: { status: 'complete', rating: 4, progress: '50%', review: 'My own words' },
+      }]);
+
+      await refreshBookPageProperties('page-uuid', { 'status': undefined, 'rating': undefined, 'progress': '60%' });
+
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledTimes(1);
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('props-uuid', 'progress', '60%');
+      expect(mockLogseq.Editor.removeBlockProperty).toHaveBeenCalledTimes(2);
+      expect(mockLogseq.Editor.removeBlockProperty).toHaveBeenCalledWith('props-uuid', 'status');
+      expect(mockLogseq.Editor.removeBlockProperty).toHaveBeenCalledWith('props-uuid', 'rating');
+    });
+  });
+});
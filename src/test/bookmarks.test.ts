@@ -0,0 +1,451 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { bookmarkNeedsUpdate, bookmarkQuote, collectExistingBookmarks, contentChange, reconcileBookmark, removeAnnotationBlock, syncBookmarksToPage } from '../sync/bookmarks';
+import { newSyncReport } from '../sync/log';
+import { getBookSettings } from '../settings';
+import { annotation_id, content_hash } from '../metadata';
+import { logseq as mockLogseq } from './setup';
+
+describe('Bookmark Reconciliation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('bookmarkQuote', () => {
+    it('should strip the quote marker', () => {
+      expect(bookmarkQuote('> Highlighted text')).toBe('Highlighted text');
+    });
+
+    it('should ignore property lines', () => {
+      expect(bookmarkQuote('> Highlighted text\nkoreader-id:: abc\npage:: 3')).toBe('Highlighted text');
+    });
+
+    it('should keep multi-line quotes', () => {
+      expect(bookmarkQuote('> First line\nsecond line\npage:: 3')).toBe('First line\nsecond line');
+    });
+
+    it('should read Org quote blocks', () => {
+      expect(bookmarkQuote('#+BEGIN_QUOTE\nHighlighted text\n#+END_QUOTE\n:PROPERTIES:\n:page: 3\n:END:')).toBe('Highlighted text');
+    });
+
+    it('should find the quote after leading property lines', () => {
+      expect(bookmarkQuote('collapsed:: true\n> Highlighted text')).toBe('Highlighted text');
+    });
+  });
+
+  describe('bookmarkNeedsUpdate', () => {
+    it('should ignore property lines', () => {
+      expect(bookmarkNeedsUpdate('> Text\nkoreader-id:: id-1', { koreaderId: 'id-1' }, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-1' },
+      })).toBe(false);
+    });
+
+    it('should rewrite blocks rendered with a different template', () => {
+      expect(bookmarkNeedsUpdate('> Text\nkoreader-id:: id-1', { koreaderId: 'id-1' }, {
+        content: 'Text (p. 3)',
+        properties: { 'koreader-id': 'id-1' },
+      })).toBe(true);
+    });
+  });
+
+  describe('collectExistingBookmarks', () => {
+    it('should index blocks by koreader-id and fall back to quote', async () => {
+      const withId = { uuid: 'uuid-1', content: '> One', properties: { koreaderId: 'id-1' } };
+      const legacy = { uuid: 'uuid-2', content: '> Two', properties: {} };
+      (mockLogseq.Editor.getBlock as any).mockImplementation((uuid: string) =>
+        Promise.resolve(uuid === 'uuid-1' ? withId : legacy)
+      );
+
+      const existing = await collectExistingBookmarks(['uuid-1', 'uuid-2'], 'section-uuid', getBookSettings());
+
+      expect(existing.byId).toEqual({ 'id-1': withId });
+      expect(existing.byQuote).toEqual({ 'Two': legacy });
+    });
+
+    it('should leave blocks of another source alone', async () => {
+      const koreader = { uuid: 'uuid-1', content: '> One', properties: { koreaderId: 'id-1', source: 'koreader' } };
+      const kindle = { uuid: 'uuid-2', content: '> Two', properties: { koreaderId: 'id-2', source: 'kindle' } };
+      (mockLogseq.Editor.getBlock as any).mockImplementation((uuid: string) =>
+        Promise.resolve(uuid === 'uuid-1' ? koreader : kindle)
+      );
+
+      const existing = await collectExistingBookmarks(['uuid-1', 'uuid-2'], 'section-uuid', getBookSettings(), 'kindle');
+
+      expect(existing.byId).toEqual({ 'id-2': kindle });
+    });
+  });
+
+  describe('reconcileBookmark', () => {
+    it('should update an edited highlight in place', async () => {
+      const existing = {
+        byId: { 'id-1': { uuid: 'uuid-1', content: '> Old text', properties: { koreaderId: 'id-1' } } as any },
+        byQuote: {},
+      };
+
+      await reconcileBookmark(existing, {
+        content: '> New text',
+        properties: { 'koreader-id': 'id-1' },
+      }, 'parent-uuid');
+
+      expect(mockLogseq.Editor.updateBlock).toHaveBeenCalledWith('uuid-1', '> New text', {
+        properties: { 'koreader-id': 'id-1' },
+      });
+      expect(mockLogseq.Editor.insertBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+      expect(existing.byId).toEqual({});
+    });
+
+    it('should adopt a legacy block matched by quote', async () => {
+      const existing = {
+        byId: {},
+        byQuote: { 'Same text': { uuid: 'uuid-2', content: '> Same text', properties: {} } as any },
+      };
+
+      await reconcileBookmark(existing, {
+        content: '> Same text',
+        properties: { 'koreader-id': 'id-2' },
+      }, 'parent-uuid');
+
+      expect(mockLogseq.Editor.updateBlock).toHaveBeenCalledWith('uuid-2', '> Same text', {
+        properties: { 'koreader-id': 'id-2' },
+      });
+      expect(existing.byQuote).toEqual({});
+    });
+
+    it('should insert a new block when nothing matches', async () => {
+      const existing = { byId: {}, byQuote: {} };
+      const report = newSyncReport();
+
+      await reconcileBookmark(existing, {
+        content: '> Fresh text',
+        properties: { 'koreader-id': 'id-3' },
+      }, 'parent-uuid', false, report);
+
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('parent-uuid', '> Fresh text', expect.objectContaining({
+        properties: { 'koreader-id': 'id-3' },
+      }));
+      expect(report.annotationsAdded).toBe(1);
+    });
+
+    it('should leave unchanged blocks alone', async () => {
+      const existing = {
+        byId: { 'id-4': { uuid: 'uuid-4', content: '> Text\nkoreader-id:: id-4\npage:: 3', properties: { koreaderId: 'id-4', page: 3 } } as any },
+        byQuote: {},
+      };
+      const report = newSyncReport();
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-4', 'page': 3 },
+      }, 'parent-uuid', false, report);
+
+      expect(mockLogseq.Editor.updateBlock).not.toHaveBeenCalled();
+      expect(report.annotationsChanged).toBe(0);
+    });
+
+    it('should leave a kept note as it is in Logseq and report it', async () => {
+      const existing = {
+        byId: { 'id-5': { uuid: 'uuid-5', content: '> Text', properties: { koreaderId: 'id-5' }, children: [['uuid', 'note-uuid']] } as any },
+        byQuote: {},
+      };
+      const report = newSyncReport();
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-5' },
+        children: [{ content: 'Note from KOReader' }],
+      }, 'parent-uuid', true, report);
+
+      expect(mockLogseq.Editor.updateBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+      expect(report.conflicts).toEqual([{ uuid: 'note-uuid', koreader: 'Note from KOReader' }]);
+    });
+
+    it('should keep a highlight edited in Logseq but update its synced properties', async () => {
+      const existing = {
+        byId: { 'id-6': { uuid: 'uuid-6', content: '> Text #important', properties: { koreaderId: 'id-6', page: 3, koreaderHash: content_hash('> Text') } } as any },
+        byQuote: {},
+      };
+      const report = newSyncReport();
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-6', 'page': 4, 'koreader-hash': content_hash('> Text') },
+      }, 'parent-uuid', false, report);
+
+      expect(mockLogseq.Editor.updateBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledTimes(1);
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('uuid-6', 'page', 4);
+      expect(report.conflicts).toEqual([]);
+      expect(report.annotationsChanged).toBe(1);
+    });
+
+    it('should report a note edited on both sides and keep the Logseq edit', async () => {
+      const existing = {
+        byId: { 'id-7': { uuid: 'uuid-7', content: '> Text', properties: { koreaderId: 'id-7', koreaderHash: content_hash('> Text') }, children: [['uuid', 'note-uuid']] } as any },
+        byQuote: {},
+      };
+      mockLogseq.Editor.getBlock.mockResolvedValue({ uuid: 'note-uuid', content: 'My fixed note', properties: { koreaderHash: content_hash('Old note') } });
+      const report = newSyncReport();
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-7', 'koreader-hash': content_hash('> Text') },
+        children: [{ content: 'New note', properties: { 'koreader-hash': content_hash('New note') } }],
+      }, 'parent-uuid', false, report);
+
+      expect(mockLogseq.Editor.updateBlock).not.toHaveBeenCalled();
+      expect(report.conflicts).toEqual([{ uuid: 'note-uuid', koreader: 'New note' }]);
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('note-uuid', 'koreader-conflict', content_hash('New note'));
+    });
+
+    it('should not report the same conflict again', async () => {
+      const existing = {
+        byId: { 'id-7': { uuid: 'uuid-7', content: '> My text', properties: { koreaderId: 'id-7', koreaderHash: content_hash('> Text'), koreaderConflict: content_hash('> New text') } } as any },
+        byQuote: {},
+      };
+      const report = newSyncReport();
+
+      await reconcileBookmark(existing, {
+        content: '> New text',
+        properties: { 'koreader-id': 'id-7', 'koreader-hash': content_hash('> New text') },
+      }, 'parent-uuid', false, report);
+
+      expect(mockLogseq.Editor.updateBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.upsertBlockProperty).not.toHaveBeenCalledWith('uuid-7', 'koreader-conflict', expect.anything());
+      expect(report.conflicts).toEqual([]);
+    });
+
+    it('should update a note only KOReader changed, recording its hash', async () => {
+      const existing = {
+        byId: { 'id-8': { uuid: 'uuid-8', content: '> Text', properties: { koreaderId: 'id-8', koreaderHash: content_hash('> Text') }, children: [['uuid', 'note-uuid']] } as any },
+        byQuote: {},
+      };
+      mockLogseq.Editor.getBlock.mockResolvedValue({ uuid: 'note-uuid', content: 'Old note', properties: { koreaderHash: content_hash('Old note') } });
+      const note = { content: 'New note', properties: { 'koreader-hash': content_hash('New note') } };
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-8', 'koreader-hash': content_hash('> Text') },
+        children: [note],
+      }, 'parent-uuid');
+
+      expect(mockLogseq.Editor.updateBlock).toHaveBeenCalledWith('note-uuid', 'New note', { properties: note.properties });
+    });
+
+    it('should archive a note removed in KOReader when something refers to it', async () => {
+      const existing = {
+        byId: { 'id-8': { uuid: 'uuid-8', content: '> Text', properties: { koreaderId: 'id-8', koreaderHash: content_hash('> Text') }, children: [['uuid', 'note-uuid']] } as any },
+        byQuote: {},
+      };
+      mockLogseq.Editor.getBlock.mockResolvedValue({ uuid: 'note-uuid', content: 'Old note', properties: { koreaderHash: content_hash('Old note') } });
+      (mockLogseq.DB.datascriptQuery as any).mockResolvedValueOnce([[42]]);
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'archived-uuid' });
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-8', 'koreader-hash': content_hash('> Text') },
+      }, 'chapter-uuid', false, newSyncReport(), 'section-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('note-uuid', 'koreader-status', 'deleted');
+      expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('note-uuid', 'archived-uuid', { children: true });
+    });
+
+    it('should leave a note removed in KOReader when removed annotations are left', async () => {
+      mockLogseq.settings = { removedAnnotations: 'leave' };
+      const existing = {
+        byId: { 'id-8': { uuid: 'uuid-8', content: '> Text', properties: { koreaderId: 'id-8', koreaderHash: content_hash('> Text') }, children: [['uuid', 'note-uuid']] } as any },
+        byQuote: {},
+      };
+      mockLogseq.Editor.getBlock.mockResolvedValue({ uuid: 'note-uuid', content: 'Old note', properties: { koreaderHash: content_hash('Old note') } });
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-8', 'koreader-hash': content_hash('> Text') },
+      }, 'parent-uuid', false, newSyncReport(), 'parent-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.moveBlock).not.toHaveBeenCalled();
+    });
+
+    it('should not remove a block the user added under a highlight without a note', async () => {
+      const existing = {
+        byId: { 'id-9': { uuid: 'uuid-9', content: '> Text', properties: { koreaderId: 'id-9', koreaderHash: content_hash('> Text') }, children: [['uuid', 'child-uuid']] } as any },
+        byQuote: {},
+      };
+      mockLogseq.Editor.getBlock.mockResolvedValue({ uuid: 'child-uuid', content: 'My own thoughts', properties: {} });
+
+      await reconcileBookmark(existing, {
+        content: '> Text',
+        properties: { 'koreader-id': 'id-9', 'koreader-hash': content_hash('> Text') },
+      }, 'parent-uuid');
+
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('contentChange', () => {
+    const fresh = (content: string) => ({ content, properties: { 'koreader-hash': content_hash(content) } });
+
+    it('should tell who changed a block since it was written', () => {
+      const written = content_hash('> Text');
+
+      expect(contentChange('> Text\nkoreader-hash:: x', written, fresh('> Text'))).toBe('none');
+      expect(contentChange('> Text', written, fresh('> New text'))).toBe('koreader');
+      expect(contentChange('> Text #tag', written, fresh('> Text'))).toBe('user');
+      expect(contentChange('> Text #tag', written, fresh('> New text'))).toBe('both');
+    });
+
+    it('should take blocks without a hash to be unedited', () => {
+      expect(contentChange('> Text #tag', undefined, fresh('> New text'))).toBe('koreader');
+    });
+  });
+
+    describe('removeAnnotationBlock', () => {
+    const block = { uuid: 'gone-uuid', content: '> Gone', properties: { koreaderId: 'id-1' } } as any;
+
+    it('should delete blocks nothing refers to', async () => {
+      expect(await removeAnnotationBlock(block, 'section-uuid', getBookSettings())).toBe(true);
+
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('gone-uuid');
+      expect(mockLogseq.Editor.moveBlock).not.toHaveBeenCalled();
+    });
+
+    it('should archive referenced blocks instead of deleting them', async () => {
+      (mockLogseq.DB.datascriptQuery as any).mockResolvedValueOnce([[42]]);
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'archived-uuid' });
+
+      await removeAnnotationBlock(block, 'section-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('section-uuid', '### Archived', { sibling: true });
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('gone-uuid', 'koreader-status', 'deleted');
+      expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('gone-uuid', 'archived-uuid', { children: true });
+    });
+
+    it('should reuse an existing archive section, even with other blocks before it', async () => {
+      mockLogseq.settings = { removedAnnotations: 'archive' };
+      mockLogseq.Editor.getBlock.mockResolvedValueOnce({ uuid: 'section-uuid', parent: { id: 1 }, page: { id: 1 } });
+      mockLogseq.Editor.getPage.mockResolvedValueOnce({ uuid: 'page-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValueOnce([
+        { uuid: 'section-uuid', content: '### Bookmarks', properties: { koreaderSection: 'bookmarks' } },
+        { uuid: 'own-uuid', content: 'My own thoughts', properties: {} },
+        { uuid: 'archived-uuid', content: '### Archived', properties: {} },
+      ]);
+
+      await removeAnnotationBlock(block, 'section-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.insertBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('gone-uuid', 'archived-uuid', { children: true });
+    });
+
+    it('should leave blocks alone when asked to', async () => {
+      mockLogseq.settings = { removedAnnotations: 'leave' };
+
+      expect(await removeAnnotationBlock(block, 'section-uuid', getBookSettings())).toBe(false);
+
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.moveBlock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncBookmarksToPage', () => {
+    const annotation = { datetime: '2025-01-13 10:00:00', pos0: 'a', text: 'Text', chapter: 'Chapter 1', pageno: 3 };
+    const metadata = { doc_props: { title: 'Test Book' }, annotations: [annotation] };
+
+    it('should move existing annotations under their chapter heading', async () => {
+      mockLogseq.settings = { groupByChapter: true };
+      const existingBookmark = {
+        uuid: 'bookmark-uuid',
+        id: 2,
+        parent: { id: 1 },
+        content: '> Text',
+        properties: { koreaderId: annotation_id(metadata, annotation) },
+      };
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'section-uuid', id: 1, content: '### Bookmarks', children: [existingBookmark] },
+      ]);
+      (mockLogseq.Editor.getBlock as any).mockResolvedValue(existingBookmark);
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'chapter-uuid', id: 3 });
+
+      await syncBookmarksToPage(metadata, 'page-uuid', 'section-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('section-uuid', '#### Chapter 1', expect.objectContaining({
+        sibling: false,
+      }));
+      expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('bookmark-uuid', 'chapter-uuid', { children: true });
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+    });
+
+    it('should reuse existing chapter headings', async () => {
+      mockLogseq.settings = { groupByChapter: true };
+      const existingBookmark = {
+        uuid: 'bookmark-uuid',
+        id: 2,
+        parent: { id: 3 },
+        content: '> Text',
+        properties: { koreaderId: annotation_id(metadata, annotation) },
+      };
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        {
+          uuid: 'section-uuid',
+          id: 1,
+          content: '### Bookmarks',
+          children: [
+            { uuid: 'chapter-uuid', id: 3, content: '#### Chapter 1\npage:: 3', properties: { page: 3 }, children: [existingBookmark] },
+          ],
+        },
+      ]);
+      (mockLogseq.Editor.getBlock as any).mockResolvedValue(existingBookmark);
+
+      await syncBookmarksToPage(metadata, 'page-uuid', 'section-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.insertBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.moveBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+    });
+
+    it('should find the section by its property after the heading template changed', async () => {
+      mockLogseq.settings = { sectionHeadingTemplate: 'Highlights' };
+      const existingBookmark = {
+        uuid: 'bookmark-uuid',
+        id: 2,
+        parent: { id: 1 },
+        content: '> Text',
+        properties: { koreaderId: annotation_id(metadata, annotation) },
+      };
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'section-uuid', id: 1, content: '### Highlights\nkoreader-section:: bookmarks', properties: { koreaderSection: 'bookmarks' }, children: [existingBookmark] },
+      ]);
+      (mockLogseq.Editor.getBlock as any).mockResolvedValue(existingBookmark);
+
+      await syncBookmarksToPage(metadata, 'page-uuid', 'section-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.insertBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+    });
+
+    it('should restore archived annotations that are back in KOReader', async () => {
+      const archivedBookmark = {
+        uuid: 'bookmark-uuid',
+        id: 2,
+        parent: { id: 4 },
+        content: '> Text',
+        properties: { koreaderId: annotation_id(metadata, annotation), koreaderStatus: 'deleted' },
+      };
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'section-uuid', id: 1, content: '### Bookmarks', children: [] },
+        { uuid: 'archived-uuid', id: 4, content: '### Archived', children: [archivedBookmark] },
+      ]);
+      (mockLogseq.Editor.getBlock as any).mockResolvedValue(archivedBookmark);
+
+      await syncBookmarksToPage(metadata, 'page-uuid', 'section-uuid', getBookSettings());
+
+      expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('bookmark-uuid', 'section-uuid', { children: true });
+      expect(mockLogseq.Editor.removeBlockProperty).toHaveBeenCalledWith('bookmark-uuid', 'koreader-status');
+      expect(mockLogseq.Editor.insertBlock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { calibreProperties, importCalibreMetadata, matchCalibreBook, parseOpf, withCalibreSeries } from '../calibre';
+import { getMetadataFiles } from '../filesystem';
+import { logseq as mockLogseq } from './setup';
+
+const OPF = `<?xml version='1.0' encoding='utf-8'?>
+<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="uuid_id" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
+    <dc:identifier opf:scheme="calibre" id="calibre_id">42</dc:identifier>
+    <dc:identifier opf:scheme="uuid" id="uuid_id">0b6f2a4e-1111-2222-3333-444455556666</dc:identifier>
+    <dc:title>Dune</dc:title>
+    <dc:creator opf:file-as="Herbert, Frank" opf:role="aut">Frank Herbert</dc:creator>
+    <dc:publisher>Ace &amp; Co</dc:publisher>
+    <dc:date>1965-08-01T04:00:00+00:00</dc:date>
+    <dc:identifier opf:scheme="ISBN">978-0-441-17271-9</dc:identifier>
+    <dc:subject>Science Fiction</dc:subject>
+    <dc:subject>Classics</dc:subject>
+    <meta name="calibre:series" content="Dune Chronicles"/>
+    <meta name="calibre:series_index" content="1.0"/>
+  </metadata>
+</package>`;
+
+describe('Calibre metadata', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('parseOpf', () => {
+    it('should read series, publisher, date, identifiers and tags', () => {
+      expect(parseOpf(OPF, 'Frank Herbert/Dune (42)/')).toEqual({
+        directory: 'Frank Herbert/Dune (42)/',
+        series: 'Dune Chronicles',
+        seriesIndex: 1,
+        publisher: 'Ace & Co',
+        published: '1965-08-01',
+        isbn: '9780441172719',
+        tags: ['Science Fiction', 'Classics'],
+        calibreId: '42',
+        uuid: '0b6f2a4e-1111-2222-3333-444455556666',
+      });
+    });
+
+    it('should leave out the placeholder date Calibre uses when the date is unknown', () => {
+      expect(parseOpf(OPF.replace('1965-08-01', '0101-01-01'), '').published).toBeUndefined();
+    });
+  });
+
+  describe('matchCalibreBook', () => {
+    const library = [parseOpf(OPF, 'Frank Herbert/Dune (42)/')];
+
+    it('should match the OPF beside the book', () => {
+      const book = { title: 'Dune', pageUUID: 'dune-uuid' } as any;
+
+      expect(matchCalibreBook(library, 'Frank Herbert/Dune (42)/Dune - Frank Herbert.sdr/metadata.epub.lua', book)).toBe(library[0]);
+      expect(matchCalibreBook(library, 'Other/Dune.sdr/metadata.epub.lua', book)).toBeUndefined();
+    });
+
+    it('should fall back to the identifiers KOReader read from the book', () => {
+      expect(matchCalibreBook(library, 'docsettings/Dune.sdr/metadata.epub.lua', {
+        identifiers: 'calibre:42\nuuid:other',
+      } as any)).toBe(library[0]);
+      expect(matchCalibreBook(library, 'docsettings/Dune.sdr/metadata.epub.lua', {
+        identifiers: 'ISBN:0-441-17271-7\nISBN:9780441172719',
+      } as any)).toBe(library[0]);
+    });
+  });
+
+  describe('calibreProperties', () => {
+    it('should turn the series and tags into page links', () => {
+      expect(calibreProperties(parseOpf(OPF, ''))).toMatchObject({
+        'series': '[[Dune Chronicles]]',
+        'series-index': 1,
+        'tags': '[[Science Fiction]], [[Classics]]',
+        'calibre-id': '42',
+      });
+    });
+  });
+
+  describe('importCalibreMetadata', () => {
+    const directory = {
+      kind: 'directory',
+      async *values() {
+        yield {
+          kind: 'directory',
+          name: 'Dune (42)',
+          async *values() {
+            yield { kind: 'file', name: 'metadata.opf', getFile: async () => ({ name: 'metadata.opf', lastModified: 1, size: OPF.length, text: async () => OPF }) };
+          },
+        };
+      },
+    };
+    const books = [{ path: 'Dune (42)/Dune.sdr/metadata.epub.lua', book: { title: 'Dune', pageUUID: 'dune-uuid' } as any }];
+
+    it('should be listed in the same walk as the KOReader metadata files', async () => {
+      const files = await getMetadataFiles(directory, ['metadata.opf']);
+
+      expect(files.map(({ path }) => path)).toEqual(['Dune (42)/metadata.opf']);
+      expect(await getMetadataFiles(directory)).toEqual([]);
+    });
+
+    it('should write the properties onto matched book pages', async () => {
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{ uuid: 'props-uuid', 'preBlock?': true, properties: {} }]);
+
+      const state = await importCalibreMetadata(await getMetadataFiles(directory, ['metadata.opf']), books, new Set());
+
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('props-uuid', 'publisher', 'Ace & Co');
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('props-uuid', 'tags', '[[Science Fiction]], [[Classics]]');
+      expect(state?.fingerprint).toBeTruthy();
+    });
+
+    it('should do nothing when no OPF or book page changed', async () => {
+      const previous = await importCalibreMetadata(await getMetadataFiles(directory, ['metadata.opf']), books, new Set());
+      vi.clearAllMocks();
+
+      expect(await importCalibreMetadata(await getMetadataFiles(directory, ['metadata.opf']), books, new Set(), previous)).toBe(previous);
+      expect(mockLogseq.Editor.getPageBlocksTree).not.toHaveBeenCalled();
+    });
+
+    it('should hand Calibre\'s series to the series pages and index, even when nothing changed', async () => {
+      const previous = await importCalibreMetadata(await getMetadataFiles(directory, ['metadata.opf']), books, new Set());
+      const state = await importCalibreMetadata(await getMetadataFiles(directory, ['metadata.opf']), books, new Set(['other-uuid']), previous);
+
+      const [dune, emma] = withCalibreSeries([books[0].book, { title: 'Emma', pageUUID: 'emma-uuid', series: 'Austen' } as any], state);
+
+      expect(dune).toMatchObject({ series: 'Dune Chronicles', seriesIndex: 1 });
+      expect(emma.series).toBe('Austen');
+      expect(books[0].book.series).toBeUndefined();
+    });
+  });
+});
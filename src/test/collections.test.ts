@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parse } from 'luaparse';
+import { bookCollections, bookFilePath, listingBlock, readCollections, syncCollections, updateSeriesPages } from '../collections';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+const COLLECTIONS = `
+return {
+    ["favorites"] = {
+        [1] = { ["file"] = "/mnt/onboard/Books/Children of Dune.epub", ["order"] = 2 },
+        [2] = { ["file"] = "/mnt/onboard/Books/Dune.epub", ["order"] = 1 },
+        ["settings"] = { ["order"] = 1 },
+    },
+    ["Sci-fi"] = {
+        [1] = { ["file"] = "/mnt/onboard/Books/Dune.epub", ["order"] = 1 },
+    },
+}
+`;
+
+const dune = { title: 'Dune', pageName: 'Frank Herbert - Dune', pageUUID: 'dune-uuid', series: 'Dune Chronicles', seriesIndex: 1, status: 'complete' } as any;
+const children = { title: 'Children of Dune', pageName: 'Frank Herbert - Children of Dune', pageUUID: 'children-uuid', series: 'Dune Chronicles', seriesIndex: 3, docPath: '/mnt/onboard/Books/Children of Dune.epub' } as any;
+const messiah = { title: 'Dune Messiah', pageName: 'Frank Herbert - Dune Messiah', pageUUID: 'messiah-uuid', series: 'Dune Chronicles', seriesIndex: 2 } as any;
+
+describe('Series and collections', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+    const actual = await vi.importActual<typeof import('luaparse')>('luaparse');
+    vi.mocked(parse).mockImplementation(actual.parse);
+  });
+
+  describe('readCollections', () => {
+    it('should read each collection in order, naming favorites as KOReader shows it', () => {
+      expect(readCollections(COLLECTIONS)).toEqual(expect.arrayContaining([
+        { name: 'Favorites', files: ['/mnt/onboard/Books/Dune.epub', '/mnt/onboard/Books/Children of Dune.epub'] },
+        { name: 'Sci-fi', files: ['/mnt/onboard/Books/Dune.epub'] },
+      ]));
+    });
+  });
+
+  describe('bookCollections', () => {
+    let collections: ReturnType<typeof readCollections>;
+    beforeEach(() => {
+      collections = readCollections(COLLECTIONS);
+    });
+
+    it('should find the book file of a sidecar', () => {
+      expect(bookFilePath('Books/Dune.sdr/metadata.epub.lua')).toBe('Books/Dune.epub');
+      expect(bookFilePath('metadata.epub.lua')).toBeUndefined();
+    });
+
+    it('should match books by the path recorded in their sidecar', () => {
+      expect(bookCollections(collections, 'elsewhere/x.sdr/metadata.epub.lua', children).map(c => c.name)).toEqual(['Favorites']);
+    });
+
+    it('should otherwise match the end of the path on the device', () => {
+      expect(bookCollections(collections, 'Books/Dune.sdr/metadata.epub.lua', dune).map(c => c.name)).toEqual(['Favorites', 'Sci-fi']);
+      expect(bookCollections(collections, 'Other/Dune.sdr/metadata.epub.lua', dune)).toEqual([]);
+    });
+  });
+
+  describe('listingBlock', () => {
+    it('should list the books with their status and a hash of the listing', () => {
+      const block = listingBlock([dune], getBookSettings());
+
+      expect(block.children).toEqual([{ content: '[[Frank Herbert - Dune]]', properties: { 'series-index': 1, 'status': 'complete' } }]);
+      expect(block.properties!['koreader-listing']).toMatch(/^[0-9a-f]{16}$/);
+      expect(listingBlock([dune, messiah], getBookSettings()).properties!['koreader-listing']).not.toBe(block.properties!['koreader-listing']);
+    });
+  });
+
+  describe('updateSeriesPages', () => {
+    it('should list the books of a series in reading order', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'series-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'listing-uuid' });
+
+      await updateSeriesPages([children, dune, messiah, { title: 'Standalone', pageName: 'Standalone' } as any], getBookSettings());
+
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledTimes(1);
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith('Dune Chronicles');
+      const listed = (mockLogseq.Editor.insertBlock as any).mock.calls.slice(1).map((call: any[]) => call[1]);
+      expect(listed).toEqual(['[[Frank Herbert - Dune]]', '[[Frank Herbert - Dune Messiah]]', '[[Frank Herbert - Children of Dune]]']);
+    });
+
+    it('should leave an unchanged listing and the rest of the page alone', async () => {
+      const listing = listingBlock([dune], getBookSettings());
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'series-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'notes-uuid', content: 'My notes on the series', properties: {} },
+        { uuid: 'listing-uuid', content: '### Books', properties: { koreaderListing: listing.properties!['koreader-listing'] } },
+      ]);
+
+      await updateSeriesPages([dune], getBookSettings());
+
+      expect(mockLogseq.Editor.insertBlock).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncCollections', () => {
+    const directory = {
+      async *values() {
+        yield { kind: 'file', name: 'collection.lua', getFile: async () => ({ lastModified: 1, size: COLLECTIONS.length, text: async () => COLLECTIONS }) };
+      },
+    };
+
+    it('should link book pages to their collections and list each collection', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'collection-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{ uuid: 'props-uuid', 'preBlock?': true, properties: {} }]);
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'listing-uuid' });
+
+      const state = await syncCollections(directory, [
+        { path: 'Books/Dune.sdr/metadata.epub.lua', book: dune },
+      ], new Set(), getBookSettings());
+
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('props-uuid', 'collections', '[[Favorites]], [[Sci-fi]]');
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith('Favorites');
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith('Sci-fi');
+      expect(state).toEqual({ lastModified: 1, size: COLLECTIONS.length });
+    });
+
+    it('should remove the link from books no longer in a collection', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'collection-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{ uuid: 'props-uuid', 'preBlock?': true, properties: { collections: ['Sci-fi'] } }]);
+
+      await syncCollections(directory, [
+        { path: 'Books/Dune Messiah.sdr/metadata.epub.lua', book: messiah },
+      ], new Set(), getBookSettings());
+
+      expect(mockLogseq.Editor.removeBlockProperty).toHaveBeenCalledWith('props-uuid', 'collections');
+    });
+
+    it('should do nothing when collection.lua and the book pages are unchanged', async () => {
+      const previous = { lastModified: 1, size: COLLECTIONS.length };
+
+      expect(await syncCollections(directory, [], new Set(), getBookSettings(), previous)).toBe(previous);
+      expect(mockLogseq.Editor.getPage).not.toHaveBeenCalled();
+    });
+  });
+});
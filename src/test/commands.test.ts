@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { currentBookSource, registerCommands } from '../commands';
+import { logseq as mockLogseq } from './setup';
+
+describe('Commands', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('currentBookSource', () => {
+    it('should read the koreader-source property of the current page', async () => {
+      mockLogseq.Editor.getCurrentPage.mockResolvedValue({ properties: { koreaderSource: 'Book.sdr/metadata.epub.lua' } });
+
+      expect(await currentBookSource()).toBe('Book.sdr/metadata.epub.lua');
+    });
+
+    it('should look up the page of a zoomed-in block', async () => {
+      mockLogseq.Editor.getCurrentPage.mockResolvedValue({ uuid: 'block-uuid', page: { id: 7 } });
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ properties: { koreaderSource: 'Book.sdr/metadata.epub.lua' } });
+
+      expect(await currentBookSource()).toBe('Book.sdr/metadata.epub.lua');
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith(7);
+    });
+
+    it('should return null for pages that were not synced', async () => {
+      mockLogseq.Editor.getCurrentPage.mockResolvedValue({ properties: {} });
+
+      expect(await currentBookSource()).toBeNull();
+    });
+  });
+
+  describe('registerCommands', () => {
+    function command(label: string) {
+      registerCommands(runSync, runMigration, runExport, runProgressSync);
+      const call = mockLogseq.Editor.registerSlashCommand.mock.calls.find(([name]: any) => name === label);
+      return call![1] as () => Promise<void>;
+    }
+    const runSync = vi.fn(() => Promise.resolve());
+    const runMigration = vi.fn(() => Promise.resolve());
+    const runExport = vi.fn(() => Promise.resolve());
+    const runProgressSync = vi.fn(() => Promise.resolve());
+
+    it('should register every command in the palette and as a slash command', () => {
+      registerCommands(runSync, runMigration, runExport, runProgressSync);
+
+      const paletteLabels = mockLogseq.App.registerCommandPalette.mock.calls.map(([options]: any) => options.label);
+      const slashLabels = mockLogseq.Editor.registerSlashCommand.mock.calls.map(([label]: any) => label);
+      expect(slashLabels).toEqual(paletteLabels);
+      expect(paletteLabels).toContain('KOReader Sync: Sync current book');
+    });
+
+    it('should sync only the current book from its koreader-source', async () => {
+      mockLogseq.settings = { syncMode: 'per-page' };
+      mockLogseq.Editor.getCurrentPage.mockResolvedValue({ properties: { koreaderSource: 'Book.sdr/metadata.epub.lua' } });
+
+      await command('KOReader Sync: Force resync current book')();
+
+      expect(runSync).toHaveBeenCalledWith({ paths: ['Book.sdr/metadata.epub.lua'], force: true });
+    });
+
+    it('should export the current book in the chosen format', async () => {
+      mockLogseq.Editor.getCurrentPage.mockResolvedValue({ properties: { koreaderSource: 'Book.sdr/metadata.epub.lua' } });
+
+      await command('KOReader Sync: Export current book as CSV')();
+
+      expect(runExport).toHaveBeenCalledWith('Book.sdr/metadata.epub.lua', 'csv');
+    });
+
+    it('should not sync when the current page has no source', async () => {
+      mockLogseq.settings = { syncMode: 'per-page' };
+      mockLogseq.Editor.getCurrentPage.mockResolvedValue({ properties: {} });
+
+      await command('KOReader Sync: Sync current book')();
+
+      expect(runSync).not.toHaveBeenCalled();
+      expect(mockLogseq.UI.showMsg).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { downloadFile, exportBook, exportFileName, toCSV, toJSON, toMarkdown } from '../export';
+import { annotation_id } from '../metadata';
+
+describe('Book Export', () => {
+  const metadata = {
+    doc_props: { title: 'Test Book', authors: 'First Author\nSecond Author', series: 'Saga' },
+    summary: { status: 'complete', rating: 4 },
+    percent_finished: 0.5,
+    partial_md5_checksum: 'abc123',
+    annotations: [
+      { text: 'First, "quoted"', pos0: 'a', pos1: 'b', chapter: 'One', pageno: 3, color: 'yellow', drawer: 'lighten', datetime: '2025-01-13 10:00:00' },
+      { text: 'Second\nline', note: 'My note', pos0: 'c', chapter: 'Two', pageno: 9, datetime: '2025-01-14 10:00:00', datetime_updated: '2025-01-15 10:00:00' },
+      { pageno: 12, chapter: 'Two', datetime: '2025-01-16 10:00:00' },
+    ],
+  };
+
+  describe('exportBook', () => {
+    it('should keep everything KOReader records about each annotation', () => {
+      const book = exportBook(metadata);
+
+      expect(book).toMatchObject({ title: 'Test Book', authors: 'First Author, Second Author', series: 'Saga', status: 'complete', rating: 4, progress: 0.5, md5: 'abc123' });
+      expect(book.annotations.map(annotation => annotation.type)).toEqual(['highlight', 'note', 'bookmark']);
+      expect(book.annotations[0]).toEqual({
+        id: annotation_id(metadata, metadata.annotations[0]),
+        type: 'highlight',
+        text: 'First, "quoted"',
+        note: undefined,
+        chapter: 'One',
+        page: 3,
+        color: 'yellow',
+        drawer: 'lighten',
+        datetime: '2025-01-13 10:00:00',
+        datetime_updated: undefined,
+        pos0: 'a',
+        pos1: 'b',
+      });
+    });
+
+    it('should read legacy bookmarks', () => {
+      const book = exportBook({
+        doc_props: { title: 'Old Book' },
+        bookmarks: [{ notes: 'Highlighted', text: 'A note', highlighted: true, page: 4, datetime: '2020-01-01 10:00:00' }],
+      });
+
+      expect(book.annotations[0]).toMatchObject({ type: 'note', text: 'Highlighted', note: 'A note', page: 4 });
+    });
+
+    it('should export a book whose highlights were all removed without any annotations', () => {
+      const book = exportBook({ doc_props: { title: 'Emptied Book' }, annotations: {} as any });
+
+      expect(book.title).toBe('Emptied Book');
+      expect(book.annotations).toEqual([]);
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should write chapters, quotes, notes and details', () => {
+      const markdown = toMarkdown(exportBook(metadata));
+
+      expect(markdown).toContain('# Test Book\n');
+      expect(markdown).toContain('**Authors:** First Author, Second Author');
+      expect(markdown).toContain('## One\n\n> First, "quoted"\n\n*page 3 · yellow · 2025-01-13 10:00:00*');
+      expect(markdown).toContain('## Two\n\n> Second\n> line\n\nMy note\n\n*page 9 · 2025-01-15 10:00:00*');
+      expect(markdown).toContain('> Page bookmark');
+      expect(markdown.match(/## Two/g)).toHaveLength(1);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should round-trip the export', () => {
+      const book = exportBook(metadata);
+
+      expect(JSON.parse(toJSON(book))).toEqual(JSON.parse(JSON.stringify(book)));
+    });
+  });
+
+  describe('toCSV', () => {
+    it('should write a header and quote fields that need it', () => {
+      const lines = toCSV(exportBook(metadata)).split('\r\n');
+
+      expect(lines[0]).toBe('title,authors,id,type,chapter,page,text,note,color,drawer,datetime,datetime_updated,pos0,pos1');
+      expect(lines[1]).toContain('Test Book,"First Author, Second Author",');
+      expect(lines[1]).toContain(',"First, ""quoted""",');
+      expect(toCSV(exportBook(metadata))).toContain('"Second\nline"');
+    });
+  });
+
+  describe('exportFileName', () => {
+    it('should name the file after the book', () => {
+      expect(exportFileName(exportBook({ doc_props: { title: 'What/Why?', authors: 'Someone' } }), 'markdown')).toBe('Someone - What_Why_.md');
+    });
+  });
+
+  describe('downloadFile', () => {
+    it('should click a download link for the file', () => {
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      downloadFile('book.json', '{}', 'application/json');
+
+      const link = click.mock.contexts[0] as HTMLAnchorElement;
+      expect(link.download).toBe('book.json');
+      expect(link.href).toMatch(/^blob:/);
+      click.mockRestore();
+    });
+  });
+});
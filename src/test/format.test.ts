@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectPreferredFormat, formatBlock, formatBlockTree, getPreferredFormat, parseHeading } from '../format';
+import { getBookSettings, handle_annotations_metadata } from '../index';
+import { logseq as mockLogseq } from './setup';
+
+describe('Graph Format', () => {
+  afterEach(async () => {
+    mockLogseq.App.getUserConfigs.mockResolvedValue({});
+    await detectPreferredFormat();
+    mockLogseq.settings = {};
+  });
+
+  describe('detectPreferredFormat', () => {
+    it('should default to Markdown', async () => {
+      expect(await detectPreferredFormat()).toBe('markdown');
+    });
+
+    it('should pick up Org graphs for later settings', async () => {
+      mockLogseq.App.getUserConfigs.mockResolvedValue({ preferredFormat: 'org' });
+
+      await detectPreferredFormat();
+
+      expect(getPreferredFormat()).toBe('org');
+      expect(getBookSettings().format).toBe('org');
+    });
+  });
+
+  describe('formatBlock', () => {
+    it('should leave Markdown blocks alone', () => {
+      const block = { content: '## Title', properties: { authors: 'Someone' } };
+
+      expect(formatBlock(block, 'markdown')).toBe(block);
+    });
+
+    it('should turn headings into a heading property', () => {
+      expect(formatBlock({ content: '### Bookmarks', properties: { 'koreader-section': 'bookmarks' } }, 'org')).toEqual({
+        content: 'Bookmarks',
+        properties: { 'koreader-section': 'bookmarks', 'heading': 3 },
+      });
+    });
+
+    it('should turn quotes into quote blocks', () => {
+      expect(formatBlock({ content: '> First line\nsecond line' }, 'org')).toEqual({
+        content: '#+BEGIN_QUOTE\nFirst line\nsecond line\n#+END_QUOTE',
+      });
+    });
+
+    it('should format children too', () => {
+      const tree = formatBlockTree({ content: '# Index', children: [{ content: '## All Books' }] }, 'org');
+
+      expect(tree.children?.[0]).toEqual({ content: 'All Books', properties: { heading: 2 } });
+    });
+  });
+
+  describe('parseHeading', () => {
+    it('should read Markdown headings', () => {
+      expect(parseHeading('#### Chapter 1\npage:: 3')).toEqual({ level: 4, text: 'Chapter 1' });
+    });
+
+    it('should read Org headings from their heading property', () => {
+      expect(parseHeading('Chapter 1\n:PROPERTIES:\n:heading: 4\n:page: 3\n:END:', { heading: 4, page: 3 }))
+        .toEqual({ level: 4, text: 'Chapter 1' });
+    });
+
+    it('should not treat other blocks as headings', () => {
+      expect(parseHeading('> Quote', { heading: true })).toBeNull();
+      expect(parseHeading('Plain text')).toBeNull();
+    });
+  });
+
+  describe('Org rendering', () => {
+    it('should render books with Org headings, quotes and highlight markup', async () => {
+      mockLogseq.App.getUserConfigs.mockResolvedValue({ preferredFormat: 'org' });
+      mockLogseq.settings = { highlightStyle: 'highlight' };
+      await detectPreferredFormat();
+
+      const result = handle_annotations_metadata({
+        doc_props: { title: 'Test Book' },
+        annotations: [{ text: 'Some text', pos0: 'a', color: 'red' }],
+      });
+
+      expect(result?.content).toBe('Test Book');
+      expect(result?.properties).toHaveProperty('heading', 2);
+      expect(result?.children?.[0]).toMatchObject({ content: 'Bookmarks', properties: { 'koreader-section': 'bookmarks', 'heading': 3 } });
+      expect(result?.children?.[0]?.children?.[0]?.content).toBe('#+BEGIN_QUOTE\n[[$red]]^^Some text^^\n#+END_QUOTE');
+    });
+  });
+});
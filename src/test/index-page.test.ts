@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { groupBooks, indexBlocks, indexSummary, sortBooks, updateIndexPage } from '../index-page';
+import { annotation_stats } from '../metadata';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+const dune = { title: 'Dune', authors: 'Frank Herbert', status: 'complete', finished: '2026-03-01', highlights: 12, notes: 2, lastAnnotated: '2026-02-20', progress: '100%', pageName: 'Frank Herbert - Dune', pageUUID: 'dune-uuid' } as any;
+const rose = { title: 'The Name of the Rose', authors: 'Umberto Eco', status: 'reading', highlights: 30, notes: 5, lastAnnotated: '2026-05-01', progress: '40%', pageName: 'Umberto Eco - The Name of the Rose', pageUUID: 'rose-uuid' } as any;
+const emma = { title: 'Emma', authors: 'Jane Austen', highlights: 0, notes: 0, pageName: 'Jane Austen - Emma', pageUUID: 'emma-uuid' } as any;
+
+describe('Index page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('annotation_stats', () => {
+    it('should count highlights and notes and find the latest change', () => {
+      expect(annotation_stats({
+        doc_props: {},
+        annotations: [
+          { pos0: 'a', text: 'One', datetime: '2026-01-01 10:00:00' },
+          { pos0: 'b', text: 'Two', note: 'Note', datetime: '2026-01-02 10:00:00', datetime_updated: '2026-02-03 08:00:00' },
+          { page: 5, datetime: '2026-01-05 10:00:00' },
+        ],
+      })).toEqual({ highlights: 2, notes: 1, lastAnnotated: '2026-02-03' });
+    });
+
+    it('should count legacy bookmarks', () => {
+      expect(annotation_stats({
+        doc_props: {},
+        bookmarks: [{ highlighted: true, notes: 'Quote', text: 'Note', datetime: '2023-04-01 10:00:00' }, { highlighted: false }],
+      })).toEqual({ highlights: 1, notes: 1, lastAnnotated: '2023-04-01' });
+    });
+  });
+
+  describe('indexSummary', () => {
+    it('should total the books, highlights and notes, and count the books finished this year', () => {
+      expect(indexSummary([dune, rose, emma], new Date(2026, 9, 19))).toEqual({ books: 3, highlights: 42, notes: 7, finishedThisYear: 1 });
+      expect(indexSummary([dune], new Date(2027, 0, 1)).finishedThisYear).toBe(0);
+    });
+  });
+
+  describe('sortBooks', () => {
+    it('should put the most recently annotated books first', () => {
+      expect(sortBooks([emma, dune, rose], 'last-annotated').map(book => book.title)).toEqual(['The Name of the Rose', 'Dune', 'Emma']);
+    });
+
+    it('should sort by title by default', () => {
+      expect(sortBooks([rose, emma, dune], 'unknown').map(book => book.title)).toEqual(['Dune', 'Emma', 'The Name of the Rose']);
+    });
+  });
+
+  describe('groupBooks', () => {
+    it('should group by status in reading order', () => {
+      expect(groupBooks([emma, dune, rose], 'status').map(([name, books]) => [name, books.length])).toEqual([
+        ['Reading', 1], ['Finished', 1], ['Not started', 1],
+      ]);
+    });
+
+    it('should group by author', () => {
+      expect(groupBooks([rose, dune], 'author').map(([name]) => name)).toEqual(['Frank Herbert', 'Umberto Eco']);
+    });
+
+    it('should keep every book together when not grouping', () => {
+      expect(groupBooks([rose, dune], 'none')).toEqual([['All Books', [rose, dune]]]);
+    });
+  });
+
+  describe('indexBlocks', () => {
+    it('should key every block and give each row its statistics', () => {
+      const [root] = indexBlocks([dune], getBookSettings(), new Date(2026, 9, 19));
+      const keys: string[] = [];
+      const collect = (block: any) => { keys.push(block.properties['koreader-index']); (block.children || []).forEach(collect); };
+      collect(root);
+
+      expect(keys).toEqual(['root', 'last-synced', 'summary', 'group/Finished', 'book/dune-uuid', 'table', 'table/query']);
+      expect(root.children![1].content).toBe('Books: 1 · Highlights: 12 · Notes: 2 · Finished in 2026: 1');
+      expect(root.children![2].children![0].properties).toMatchObject({ 'highlights': 12, 'last-annotated': '2026-02-20', 'progress': '100%' });
+    });
+  });
+
+  describe('updateIndexPage', () => {
+    it('should update rows in place and move them between groups', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'index-uuid' });
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'new-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'notes-uuid', content: 'My own notes', properties: {} },
+        {
+          uuid: 'root-uuid', content: '# KOReader Books Index', properties: { koreaderIndex: 'root' }, children: [
+            { uuid: 'reading-uuid', content: '## Reading (1)', properties: { koreaderIndex: 'group/Reading' }, children: [
+              { uuid: 'dune-row', content: '[[Frank Herbert - Dune]]', properties: { koreaderIndex: 'book/dune-uuid', status: 'reading' } },
+            ] },
+          ],
+        },
+      ]);
+
+      await updateIndexPage([dune], getBookSettings());
+
+      expect(mockLogseq.Editor.updateBlock).toHaveBeenCalledWith('dune-row', '[[Frank Herbert - Dune]]', expect.objectContaining({
+        properties: expect.objectContaining({ status: 'complete' }),
+      }));
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith(expect.anything(), '## Finished (1)', expect.anything());
+      expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('dune-row', 'new-uuid', { children: true });
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('reading-uuid');
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalledWith('dune-row');
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalledWith('notes-uuid');
+    });
+
+    it('should replace the index written by earlier versions', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'index-uuid' });
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'new-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'old-root', content: '# KOReader Books Index', properties: {}, children: [] },
+      ]);
+
+      await updateIndexPage([dune], getBookSettings());
+
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('old-root');
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('index-uuid', '# KOReader Books Index', expect.objectContaining({ sibling: false }));
+    });
+
+    it('should create the page without navigating to it', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue(null);
+      (mockLogseq.Editor.createPage as any).mockResolvedValue({ uuid: 'index-uuid' });
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'new-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+
+      await updateIndexPage([dune], getBookSettings());
+
+      expect(mockLogseq.Editor.createPage).toHaveBeenCalledWith(expect.any(String), { 'type': 'koreader-index' }, { format: 'markdown', redirect: false });
+    });
+  });
+});
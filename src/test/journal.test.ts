@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { highlightsByDay, linkHighlightsInJournal, parseKOReaderDate, readTodayChildren } from '../journal';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+describe('Journal Integration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+    mockLogseq.App.getUserConfigs.mockResolvedValue({ preferredDateFormat: 'MMM do, yyyy' });
+  });
+
+  describe('parseKOReaderDate', () => {
+    it('should parse KOReader timestamps as local time', () => {
+      expect(parseKOReaderDate('2025-01-13 10:20:30')).toEqual(new Date(2025, 0, 13, 10, 20, 30));
+      expect(parseKOReaderDate('2025-01-13')).toEqual(new Date(2025, 0, 13));
+    });
+
+    it('should reject anything else', () => {
+      expect(parseKOReaderDate('yesterday')).toBeNull();
+    });
+  });
+
+  describe('highlightsByDay', () => {
+    it('should group highlights by day and book in the order they were made', () => {
+      const days = highlightsByDay([
+        { uuid: 'b', datetime: '2025-01-13 12:00:00', page: 'Book One' },
+        { uuid: 'a', datetime: '2025-01-13 09:00:00', page: 'Book One' },
+        { uuid: 'c', datetime: '2025-01-13 10:00:00', page: 'Book Two' },
+        { uuid: 'd', datetime: '2025-01-14 10:00:00', page: 'Book Two' },
+      ]);
+
+      expect(days).toEqual({
+        '2025-01-13': { 'Book One': ['a', 'b'], 'Book Two': ['c'] },
+        '2025-01-14': { 'Book Two': ['d'] },
+      });
+    });
+  });
+
+  describe('readTodayChildren', () => {
+    it('should reference each highlight under its book', () => {
+      expect(readTodayChildren({ 'Book One': ['a', 'b'] })).toEqual([
+        { content: '[[Book One]]', children: [{ content: '((a))' }, { content: '((b))' }] },
+      ]);
+    });
+  });
+
+  describe('linkHighlightsInJournal', () => {
+    beforeEach(() => {
+      (mockLogseq.DB.datascriptQuery as any).mockResolvedValue([
+        ['uuid-1', '2025-01-13 10:00:00', 'Book One', ''],
+        ['uuid-2', '2025-01-13 11:00:00', '_logseq-koreader-sync', ''],
+        ['uuid-3', '2025-01-13 12:00:00', 'Book One', 'deleted'],
+      ]);
+    });
+
+    it('should add a Read today block to the journal page', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'journal-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+      (mockLogseq.Editor.appendBlockInPage as any).mockResolvedValue({ uuid: 'read-today-uuid' });
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'book-uuid' });
+
+      const hashes = await linkHighlightsInJournal(getBookSettings());
+
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith('Jan 13th, 2025');
+      expect(mockLogseq.Editor.appendBlockInPage).toHaveBeenCalledWith('journal-uuid', 'Read today', {
+        properties: { 'koreader-journal': 'highlights' },
+      });
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('read-today-uuid', '[[Book One]]', expect.anything());
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('book-uuid', '((uuid-1))', expect.anything());
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledTimes(2);
+      expect(Object.keys(hashes)).toEqual(['2025-01-13']);
+    });
+
+    it('should leave unchanged days alone', async () => {
+      const hashes = await linkHighlightsInJournal(getBookSettings());
+      vi.clearAllMocks();
+
+      await linkHighlightsInJournal(getBookSettings(), hashes);
+
+      expect(mockLogseq.Editor.getPage).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.insertBlock).not.toHaveBeenCalled();
+    });
+
+    it('should replace the references of an existing block and clear days without highlights', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'journal-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'read-today-uuid', properties: { koreaderJournal: 'highlights' }, children: [{ uuid: 'old-uuid' }] },
+      ]);
+
+      await linkHighlightsInJournal(getBookSettings(), { '2025-01-12': 'stale' });
+
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('old-uuid');
+      expect(mockLogseq.Editor.appendBlockInPage).not.toHaveBeenCalled();
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('read-today-uuid', '[[Book One]]', expect.anything());
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith('Jan 12th, 2025');
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('read-today-uuid');
+    });
+
+    it('should file an edited highlight under the day it was made', async () => {
+      (mockLogseq.DB.datascriptQuery as any).mockResolvedValue([
+        ['uuid-1', '2025-01-20 09:00:00', 'Book One', '', '2025-01-13 10:00:00'],
+      ]);
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'journal-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+
+      const hashes = await linkHighlightsInJournal(getBookSettings());
+
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith('Jan 13th, 2025');
+      expect(Object.keys(hashes)).toEqual(['2025-01-13']);
+    });
+
+    it('should rewrite unchanged days and still clear old ones when forced', async () => {
+      const hashes = await linkHighlightsInJournal(getBookSettings());
+      vi.clearAllMocks();
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'journal-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'read-today-uuid', properties: { koreaderJournal: 'highlights' }, children: [] },
+      ]);
+
+      await linkHighlightsInJournal(getBookSettings(), { ...hashes, '2025-01-12': 'stale' }, true);
+
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('read-today-uuid', '[[Book One]]', expect.anything());
+      expect(mockLogseq.Editor.getPage).toHaveBeenCalledWith('Jan 12th, 2025');
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('read-today-uuid');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { clippingsToMetadata, importKindleClippings, kindleSource, matchBook, parseClippings, readKindleBook } from '../kindle';
+import { annotation_id } from '../metadata';
+import { getBookSettings } from '../settings';
+import { newSyncReport } from '../sync/log';
+import { logseq as mockLogseq } from './setup';
+
+const CLIPPINGS = [
+  '﻿The Name of the Rose (Eco, Umberto)',
+  '- Your Highlight on page 12 | Location 150-152 | Added on Monday, January 13, 2025 10:00:00 AM',
+  '',
+  'Old highlight',
+  '==========',
+  'The Name of the Rose (Eco, Umberto)',
+  '- Your Highlight on page 12 | Location 150-153 | Added on Monday, January 13, 2025 10:05:00 AM',
+  '',
+  'A longer highlight',
+  '==========',
+  'The Name of the Rose (Eco, Umberto)',
+  '- Your Note on page 12 | Location 153 | Added on Monday, January 13, 2025 10:06:00 AM',
+  '',
+  'My note',
+  '==========',
+  'The Name of the Rose (Eco, Umberto)',
+  '- Your Bookmark on page 40 | Location 610 | Added on Tuesday, January 14, 2025 9:30:00 PM',
+  '',
+  '',
+  '==========',
+  'Good Omens (Terry Pratchett; Neil Gaiman)',
+  '- Your Highlight at location 20-21 | Added on Wednesday, January 15, 2025 8:00:00 AM',
+  '',
+  'Kindly ones',
+  '==========',
+  'Ein Buch (Autor)',
+  '- Ihre Markierung bei Position 5-6 | Hinzugefügt am Mittwoch, 15. Januar 2025 08:00:00',
+  '',
+  'Nicht unterstützt',
+  '==========',
+  '',
+].join('\r\n');
+
+describe('Kindle clippings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('parseClippings', () => {
+    it('should parse highlights, notes and bookmarks with their location and date', () => {
+      const clippings = parseClippings(CLIPPINGS);
+
+      expect(clippings).toHaveLength(5);
+      expect(clippings[1]).toEqual({
+        title: 'The Name of the Rose',
+        authors: 'Eco, Umberto',
+        type: 'highlight',
+        page: 12,
+        location: [150, 153],
+        datetime: '2025-01-13 10:05:00',
+        text: 'A longer highlight',
+      });
+      expect(clippings[2]).toMatchObject({ type: 'note', location: [153, 153], text: 'My note' });
+      expect(clippings[3]).toMatchObject({ type: 'bookmark', page: 40, datetime: '2025-01-14 21:30:00', text: '' });
+    });
+
+    it('should split several authors', () => {
+      const clippings = parseClippings(CLIPPINGS);
+
+      expect(clippings[4]).toMatchObject({ title: 'Good Omens', authors: 'Terry Pratchett, Neil Gaiman', page: undefined, location: [20, 21] });
+    });
+
+    it('should skip entries in other languages', () => {
+      expect(parseClippings(CLIPPINGS).map(clipping => clipping.title)).not.toContain('Ein Buch');
+    });
+  });
+
+  describe('clippingsToMetadata', () => {
+    it('should group clippings by book and attach notes to their highlight', () => {
+      const [rose, omens] = clippingsToMetadata(parseClippings(CLIPPINGS));
+
+      expect(rose.source).toBe('kindle');
+      expect(rose.doc_props).toEqual({ title: 'The Name of the Rose', authors: 'Eco, Umberto' });
+      expect(rose.annotations).toEqual([
+        { pageno: 40, datetime: '2025-01-14 21:30:00' },
+        { text: 'A longer highlight', note: 'My note', pageno: 12, pos0: '150', pos1: '153', datetime: '2025-01-13 10:05:00' },
+      ]);
+      expect(omens.annotations).toHaveLength(1);
+    });
+
+    it('should keep notes without a highlight on their own', () => {
+      const [book] = clippingsToMetadata([
+        { title: 'Book', type: 'note', location: [10, 10], text: 'Loose note' },
+      ]);
+
+      expect(book.annotations).toEqual([{ note: 'Loose note', pageno: undefined, pos0: '10', pos1: '10', datetime: undefined }]);
+    });
+
+    it('should not give Kindle annotations the ids of KOReader ones', () => {
+      const [book] = clippingsToMetadata(parseClippings(CLIPPINGS));
+      const annotation = book.annotations![1];
+
+      expect(annotation_id(book, annotation)).not.toBe(annotation_id({ ...book, source: undefined }, annotation));
+    });
+  });
+
+  describe('matchBook', () => {
+    const books = [
+      { title: 'The Name of the Rose: A Novel', authors: 'Umberto Eco', pageName: 'Umberto Eco - The Name of the Rose: A Novel', pageUUID: 'rose-uuid' },
+      { title: 'Good Omens', pageName: 'Good Omens', pageUUID: 'omens-uuid' },
+    ] as any[];
+
+    it('should match titles and authors ignoring case, punctuation and name order', () => {
+      const metadata = { doc_props: { title: 'the name of the rose - a novel', authors: 'Eco, Umberto' } };
+
+      expect(matchBook(books, metadata)?.pageUUID).toBe('rose-uuid');
+    });
+
+    it('should match on the title alone when either side has no authors', () => {
+      expect(matchBook(books, { doc_props: { title: 'Good Omens', authors: 'Terry Pratchett' } })?.pageUUID).toBe('omens-uuid');
+    });
+
+    it('should not match a book by other authors', () => {
+      expect(matchBook(books, { doc_props: { title: 'The Name of the Rose: A Novel', authors: 'Someone Else' } })).toBeUndefined();
+    });
+  });
+
+  describe('importKindleClippings', () => {
+    function directory(lastModified: number) {
+      return {
+        async *values() {
+          yield { kind: 'file', name: 'My Clippings.txt', getFile: async () => ({ lastModified, size: CLIPPINGS.length, text: async () => CLIPPINGS }) };
+        },
+      };
+    }
+
+    it('should skip an unchanged file whose pages still exist', async () => {
+      const previous = { lastModified: 1, size: CLIPPINGS.length, books: [{ title: 'Good Omens', pageName: 'Good Omens', pageUUID: 'omens-uuid' } as any] };
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'omens-uuid', properties: { koreaderSource: kindleSource('Good Omens') } });
+
+      const state = await importKindleClippings(directory(1), [], getBookSettings(), previous);
+
+      expect(state).toBe(previous);
+      expect(mockLogseq.Editor.getPageBlocksTree).not.toHaveBeenCalled();
+    });
+
+    it('should add annotations of books read in KOReader to their existing page', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'omens-page', originalName: 'Good Omens' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'section-uuid' });
+      (mockLogseq.Editor.getBlock as any).mockResolvedValue({ uuid: 'section-uuid', children: [] });
+
+      const state = await importKindleClippings(directory(2), [
+        { title: 'The Name of the Rose', authors: 'Umberto Eco', pageName: 'Umberto Eco - The Name of the Rose', pageUUID: 'rose-page' } as any,
+      ], getBookSettings());
+
+      expect(mockLogseq.Editor.getPageBlocksTree).toHaveBeenCalledWith('rose-page');
+      expect(mockLogseq.Editor.createPage).not.toHaveBeenCalled();
+      expect(state).toMatchObject({ lastModified: 2, size: CLIPPINGS.length, books: [{ title: 'Good Omens', pageUUID: 'omens-page' }] });
+    });
+
+    it('should give pages of Kindle-only books a source the book commands can find', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue(null);
+      (mockLogseq.Editor.createPage as any).mockResolvedValue({ uuid: 'omens-page', originalName: 'Good Omens' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+      (mockLogseq.Editor.insertBlock as any).mockResolvedValue({ uuid: 'section-uuid' });
+      (mockLogseq.Editor.getBlock as any).mockResolvedValue({ uuid: 'section-uuid', children: [] });
+
+      const report = newSyncReport();
+      await importKindleClippings(directory(2), [], getBookSettings(), undefined, report);
+
+      expect(report.created).toContain('Good Omens');
+      expect(report.annotationsAdded).toBeGreaterThan(0);
+      expect(mockLogseq.Editor.createPage).toHaveBeenCalledWith(expect.stringContaining('Good Omens'), expect.objectContaining({
+        'koreader-source': 'My Clippings.txt#Good Omens',
+      }), expect.anything());
+    });
+
+    it('should report a book that failed and go on with the others', async () => {
+      (mockLogseq.Editor.getPage as any).mockResolvedValue(null);
+      (mockLogseq.Editor.createPage as any).mockRejectedValue(new Error('page exists'));
+      const report = newSyncReport();
+
+      const state = await importKindleClippings(directory(2), [], getBookSettings(), undefined, report);
+
+      expect(report.errors).toContainEqual({ source: kindleSource('Good Omens'), message: 'page exists' });
+      expect(state?.books).toEqual([]);
+    });
+  });
+
+  describe('readKindleBook', () => {
+    it('should read the annotations of the book a source names', async () => {
+      const directory = {
+        async *values() {
+          yield { kind: 'file', name: 'My Clippings.txt', getFile: async () => ({ text: async () => CLIPPINGS }) };
+        },
+      };
+
+      const metadata = await readKindleBook(directory, kindleSource('Good Omens'));
+
+      expect(metadata?.doc_props.title).toBe('Good Omens');
+      expect(metadata?.annotations).toHaveLength(1);
+      expect(await readKindleBook(directory, kindleSource('Dune'))).toBeNull();
+    });
+  });
+});
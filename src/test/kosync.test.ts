@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fetchProgress, progressProperties, syncKosyncProgress } from '../kosync';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+const progress = {
+  document: 'a1b2c3',
+  percentage: 0.4251,
+  progress: '/body/DocFragment[12]/body/p[3]/text().0',
+  device: 'Kobo Libra 2',
+  device_id: 'kobo-1',
+  timestamp: new Date(2025, 0, 13, 21, 30).getTime() / 1000,
+};
+
+const book = { title: 'Dune', pageName: 'Frank Herbert - Dune', pageUUID: 'dune-uuid', md5: 'a1b2c3' } as any;
+
+function respond(status: number, body: unknown = {}) {
+  return Promise.resolve({ status, ok: status >= 200 && status < 300, statusText: '', json: () => Promise.resolve(body) });
+}
+
+describe('kosync', () => {
+  const fetch = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = { kosyncServer: 'https://sync.example.org/', kosyncUsername: 'reader', kosyncPassword: 'secret' };
+    mockLogseq.App.getUserConfigs.mockResolvedValue({ preferredDateFormat: 'yyyy-MM-dd' });
+    mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{ 'preBlock?': true, uuid: 'properties-uuid', properties: {} }]);
+    vi.stubGlobal('fetch', fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('fetchProgress', () => {
+    it('should authenticate with the username and the MD5 of the password', async () => {
+      fetch.mockReturnValue(respond(200, progress));
+
+      expect(await fetchProgress(getBookSettings(), 'a1b2c3')).toEqual(progress);
+      expect(fetch).toHaveBeenCalledWith('https://sync.example.org/syncs/progress/a1b2c3', {
+        headers: {
+          'Accept': 'application/vnd.koreader.v1+json',
+          'x-auth-user': 'reader',
+          'x-auth-key': '5ebe2294ecd0e0f08eab7690d2a6ee69',
+        },
+      });
+    });
+
+    it('should return null for documents without a position', async () => {
+      fetch.mockReturnValue(respond(404));
+      expect(await fetchProgress(getBookSettings(), 'a1b2c3')).toBeNull();
+
+      fetch.mockReturnValue(respond(200, {}));
+      expect(await fetchProgress(getBookSettings(), 'a1b2c3')).toBeNull();
+    });
+
+    it('should throw when the credentials are rejected', async () => {
+      fetch.mockReturnValue(respond(401));
+
+      await expect(fetchProgress(getBookSettings(), 'a1b2c3')).rejects.toThrow('rejected the credentials of reader');
+    });
+  });
+
+  describe('progressProperties', () => {
+    it('should render the percentage, device and reading day', () => {
+      expect(progressProperties(progress, 'yyyy-MM-dd')).toEqual({
+        'progress': '43%',
+        'device': 'Kobo Libra 2',
+        'last-read': '[[2025-01-13]]',
+      });
+    });
+  });
+
+  describe('syncKosyncProgress', () => {
+    it('should write the position to the book page and return its timestamp', async () => {
+      fetch.mockReturnValue(respond(200, progress));
+
+      const timestamps = await syncKosyncProgress([book, { ...book, md5: undefined }], new Set(), getBookSettings());
+
+      expect(timestamps).toEqual({ a1b2c3: progress.timestamp });
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('properties-uuid', 'progress', '43%');
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalledWith('properties-uuid', 'last-read', '[[2025-01-13]]');
+    });
+
+    it('should skip positions already written unless the page was just rewritten', async () => {
+      fetch.mockReturnValue(respond(200, progress));
+      const previous = { a1b2c3: progress.timestamp };
+
+      await syncKosyncProgress([book], new Set(), getBookSettings(), previous);
+      expect(mockLogseq.Editor.upsertBlockProperty).not.toHaveBeenCalled();
+
+      await syncKosyncProgress([book], new Set(['dune-uuid']), getBookSettings(), previous);
+      expect(mockLogseq.Editor.upsertBlockProperty).toHaveBeenCalled();
+    });
+  });
+});
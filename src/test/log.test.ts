@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { finishSyncReport, isQuietReport, newSyncReport, reportBlock, SYNC_LOG_PAGE, writeSyncLog } from '../sync/log';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+describe('Sync log', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('reportBlock', () => {
+    it('should summarize books and annotations', () => {
+      const report = newSyncReport("per-page", new Date(2025, 0, 13, 10));
+      report.created.push('Dune');
+      report.updated.push('Emma', 'Ulysses');
+      report.annotationsAdded = 3;
+      report.annotationsRemoved = 1;
+
+      const block = reportBlock(report);
+
+      expect(block.content).toMatch(/^## Sync at .* \(per-page\)$/);
+      expect(block.properties).toEqual({ 'koreader-log': 'run' });
+      expect(block.children![0]).toEqual({
+        content: 'Books: 1 created, 2 updated, 0 unchanged',
+        children: [
+          { content: 'Created (1)', children: [{ content: 'Dune' }] },
+          { content: 'Updated (2)', children: [{ content: 'Emma, Ulysses' }] },
+        ],
+      });
+      expect(block.children![1].content).toBe('Annotations: 3 added, 0 changed, 1 removed');
+      expect(block.children).toHaveLength(2);
+    });
+
+    it('should list skipped files, errors and conflicts', () => {
+      const report = newSyncReport();
+      report.skipped.push({ path: 'Emma.sdr/metadata.epub.lua', reason: 'no highlights or bookmarks' });
+      report.errors.push({ source: 'Dune.sdr/metadata.epub.lua', message: 'unexpected symbol' });
+      report.conflicts.push({ uuid: 'uuid-1', koreader: '> New text' }, { uuid: 'uuid-2', koreader: '' });
+
+      const [, , skipped, errors, conflicts] = reportBlock(report).children!;
+
+      expect(skipped.children).toEqual([{ content: '`Emma.sdr/metadata.epub.lua`: no highlights or bookmarks' }]);
+      expect(errors.children).toEqual([{ content: '`Dune.sdr/metadata.epub.lua`: unexpected symbol' }]);
+      expect(conflicts.children).toEqual([
+        { content: '((uuid-1))', children: [{ content: '> New text' }] },
+        { content: '((uuid-2))', children: [{ content: '(removed in KOReader)' }] },
+      ]);
+    });
+  });
+
+  describe('isQuietReport', () => {
+    it('should only count syncs that changed nothing and ran into no problems as quiet', () => {
+      const report = newSyncReport();
+      report.unchanged.push('Dune');
+      expect(isQuietReport(report)).toBe(true);
+
+      report.errors.push({ source: 'vocabulary', message: 'locked' });
+      expect(isQuietReport(report)).toBe(false);
+    });
+  });
+
+  describe('writeSyncLog', () => {
+    it('should create the log page and add the entry to it', async () => {
+      mockLogseq.Editor.getPage.mockResolvedValue(null);
+      mockLogseq.Editor.createPage.mockResolvedValue({ uuid: 'log-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+      mockLogseq.Editor.insertBlock.mockResolvedValue({ uuid: 'entry-uuid' });
+
+      await writeSyncLog(newSyncReport(), getBookSettings());
+
+      expect(mockLogseq.Editor.createPage).toHaveBeenCalledWith(SYNC_LOG_PAGE, {}, { format: 'markdown', redirect: false });
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('log-uuid', expect.stringMatching(/^## Sync at /), expect.objectContaining({ sibling: false }));
+    });
+
+    it('should put the newest entry first', async () => {
+      mockLogseq.Editor.getPage.mockResolvedValue({ uuid: 'log-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{ uuid: 'older-uuid', content: '## Sync at yesterday', properties: { koreaderLog: 'run' } }]);
+      mockLogseq.Editor.insertBlock.mockResolvedValue({ uuid: 'entry-uuid' });
+
+      await writeSyncLog(newSyncReport(), getBookSettings());
+
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('older-uuid', expect.stringMatching(/^## Sync at /), expect.objectContaining({ sibling: true, before: true }));
+      expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalled();
+    });
+
+    it('should keep only the latest runs, leaving the user\'s own blocks alone', async () => {
+      mockLogseq.settings = { syncLogRuns: 2 };
+      mockLogseq.Editor.getPage.mockResolvedValue({ uuid: 'log-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'run-1', content: '## Sync at 3', properties: { koreaderLog: 'run' } },
+        { uuid: 'own-uuid', content: 'My notes on syncing', properties: {} },
+        { uuid: 'run-2', content: '## Sync at 2', properties: { koreaderLog: 'run' } },
+        { uuid: 'run-3', content: '## Sync at 1', properties: { koreaderLog: 'run' } },
+      ]);
+      mockLogseq.Editor.insertBlock.mockResolvedValue({ uuid: 'entry-uuid' });
+
+      await writeSyncLog(newSyncReport(), getBookSettings());
+
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledTimes(2);
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('run-2');
+      expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('run-3');
+    });
+  });
+
+  describe('finishSyncReport', () => {
+    it('should not log a background sync that did nothing', async () => {
+      await finishSyncReport(newSyncReport(), getBookSettings(), { silent: true });
+
+      expect(mockLogseq.Editor.getPage).not.toHaveBeenCalled();
+      expect(mockLogseq.UI.showMsg).not.toHaveBeenCalled();
+    });
+
+    it('should not log anything when the log is turned off, but still warn about errors', async () => {
+      mockLogseq.settings = { syncLogRuns: 0 };
+      const report = newSyncReport();
+      report.errors.push({ source: 'Dune.sdr/metadata.epub.lua', message: 'unexpected symbol' });
+
+      await finishSyncReport(report, getBookSettings(), {});
+
+      expect(mockLogseq.Editor.getPage).not.toHaveBeenCalled();
+      expect(mockLogseq.UI.showMsg).toHaveBeenCalledWith('KOReader Sync: 1 error(s).', 'warning');
+    });
+
+    it('should log the sync and point to the log page', async () => {
+      mockLogseq.Editor.getPage.mockResolvedValue({ uuid: 'log-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+      mockLogseq.Editor.insertBlock.mockResolvedValue({ uuid: 'entry-uuid' });
+      const report = newSyncReport();
+      report.conflicts.push({ uuid: 'uuid-1', koreader: 'Note' });
+
+      await finishSyncReport(report, getBookSettings(), {});
+
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalled();
+      expect(mockLogseq.UI.showMsg).toHaveBeenCalledWith(expect.stringContaining(`See the "${SYNC_LOG_PAGE}" page.`), 'warning');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parse } from 'luaparse';
+import { decodeLuaString, encodeLuaString, parseLuaTable, serializeLuaTable } from '../lua';
+
+describe('Lua Parsing', () => {
+  beforeEach(async () => {
+    const actual = await vi.importActual<typeof import('luaparse')>('luaparse');
+    vi.mocked(parse).mockImplementation(actual.parse);
+  });
+
+  describe('decodeLuaString', () => {
+    it('should strip quotes from simple strings', () => {
+      expect(decodeLuaString('"hello"')).toBe('hello');
+      expect(decodeLuaString("'hello'")).toBe('hello');
+    });
+
+    it('should decode escaped quotes and backslashes', () => {
+      expect(decodeLuaString('"say \\"hi\\" \\\\ bye"')).toBe('say "hi" \\ bye');
+    });
+
+    it('should decode escaped newlines as written by string.format("%q")', () => {
+      expect(decodeLuaString('"line one\\\nline two"')).toBe('line one\nline two');
+      expect(decodeLuaString('"tab\\there\\n"')).toBe('tab\there\n');
+    });
+
+    it('should decode decimal and hex byte escapes as UTF-8', () => {
+      expect(decodeLuaString('"caf\\195\\169"')).toBe('café');
+      expect(decodeLuaString('"caf\\xC3\\xA9"')).toBe('café');
+    });
+
+    it('should decode unicode escapes', () => {
+      expect(decodeLuaString('"\\u{1F4DA}"')).toBe('📚');
+    });
+
+    it('should return long-bracket strings verbatim', () => {
+      expect(decodeLuaString('[[a "quoted" \\n]]')).toBe('a "quoted" \\n');
+      expect(decodeLuaString('[==[\nwith ]] inside]==]')).toBe('with ]] inside');
+    });
+  });
+
+  describe('parseLuaTable', () => {
+    it('should convert numbers and booleans to native types', () => {
+      const result = parseLuaTable('return { ["a"] = 1.5, ["b"] = -2, ["c"] = true, ["d"] = false }');
+
+      expect(result).toEqual({ a: 1.5, b: -2, c: true, d: false });
+    });
+
+    it('should convert sequential integer keys to arrays', () => {
+      const result = parseLuaTable('return { [1] = "one", [2] = "two" }');
+
+      expect(result).toEqual(['one', 'two']);
+    });
+
+    it('should convert positional values to arrays', () => {
+      const result = parseLuaTable('return { "one", "two" }');
+
+      expect(result).toEqual(['one', 'two']);
+    });
+
+    it('should keep sparse integer keys as an object', () => {
+      const result = parseLuaTable('return { [1] = "one", [3] = "three" }');
+
+      expect(result).toEqual({ 1: 'one', 3: 'three' });
+    });
+
+    it('should convert empty tables to objects', () => {
+      expect(parseLuaTable('return {}')).toEqual({});
+    });
+
+    it('should handle arbitrary nesting', () => {
+      const result = parseLuaTable(`
+        -- we can read Lua syntax here!
+        return {
+            ["doc_props"] = {
+                ["identifiers"] = {
+                    ["isbn"] = "9780000000000",
+                },
+            },
+            ["stats"] = {
+                ["performance_in_pages"] = {
+                    [1700000000] = 12,
+                },
+            },
+            ["annotations"] = {
+                [1] = {
+                    ["text"] = "A \\"quoted\\" line\\
+with a newline",
+                    ["pageno"] = 12,
+                },
+            },
+        }
+      `);
+
+      expect(result).toEqual({
+        doc_props: { identifiers: { isbn: '9780000000000' } },
+        stats: { performance_in_pages: { 1700000000: 12 } },
+        annotations: [{ text: 'A "quoted" line\nwith a newline', pageno: 12 }],
+      });
+    });
+
+    it('should throw when the chunk does not return a value', () => {
+      expect(() => parseLuaTable('local x = 1')).toThrow();
+    });
+  });
+
+  describe('encodeLuaString', () => {
+    it('should escape quotes, backslashes and control characters', () => {
+      expect(encodeLuaString('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+      expect(encodeLuaString('line one\nline two\ttab')).toBe('"line one\\nline two\\009tab"');
+    });
+
+    it('should be read back by decodeLuaString', () => {
+      const text = 'A "quoted" line\nwith \\ and \r\u0000 and café 📚';
+      expect(decodeLuaString(encodeLuaString(text))).toBe(text);
+    });
+  });
+
+  describe('serializeLuaTable', () => {
+    it('should lay tables out the way KOReader does', () => {
+      expect(serializeLuaTable({ annotations: [{ note: 'A note', pageno: 12 }], doc_props: {} })).toBe(`return {
+    ["annotations"] = {
+        [1] = {
+            ["note"] = "A note",
+            ["pageno"] = 12,
+        },
+    },
+    ["doc_props"] = {},
+}
+`);
+    });
+
+    it('should be read back unchanged by parseLuaTable', () => {
+      const value = {
+        doc_props: { title: 'Dune', authors: 'Frank Herbert\nBrian Herbert' },
+        percent_finished: 0.4251,
+        stats: { performance_in_pages: { 1700000000: 12 } },
+        annotations: [{ text: 'A "quoted" line', pos0: '/body/p[3]', pageno: -1, highlighted: true }],
+        summary: { status: 'reading' },
+      };
+
+      expect(parseLuaTable(serializeLuaTable(value))).toEqual(value);
+    });
+  });
+});
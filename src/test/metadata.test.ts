@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { handle_annotations_metadata, handle_bookmarks_metadata, getBookSettings } from '../index';
+import { parse } from 'luaparse';
+import { annotation_stats } from '../metadata';
+import { handle_annotations_metadata, handle_bookmarks_metadata, lua_to_block, annotation_id, book_properties, book_series, render_highlight, book_key, getBookSettings, hashString } from '../index';
 import { logseq as mockLogseq } from './setup';
 
 describe('Metadata Processing', () => {
@@ -195,4 +197,260 @@ describe('Metadata Processing', () => {
       expect(bookmarkBlock?.content).toContain('\\-');
     });
   });
+
+  describe('annotation_id', () => {
+    const metadata = {
+      doc_props: { title: 'Test Book' },
+      partial_md5_checksum: 'abc123',
+    };
+
+    it('should stay the same when the highlight text and note change', () => {
+      const original = annotation_id(metadata, { datetime: '2025-01-13 10:00:00', pos0: 'a', pos1: 'b', text: 'Old' });
+      const edited = annotation_id(metadata, { datetime: '2025-01-13 10:00:00', pos0: 'a', pos1: 'b', text: 'New', note: 'A note' });
+
+      expect(edited).toBe(original);
+    });
+
+    it('should tell highlights made in the same second apart', () => {
+      const first = annotation_id(metadata, { datetime: '2025-01-13 10:00:00', pos0: 'a', pos1: 'b' });
+      const second = annotation_id(metadata, { datetime: '2025-01-13 10:00:00', pos0: 'c', pos1: 'd' });
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should tell identical highlights made at different times apart', () => {
+      const first = annotation_id(metadata, { datetime: '2025-01-13 10:00:00', text: 'Same' });
+      const second = annotation_id(metadata, { datetime: '2025-01-14 10:00:00', text: 'Same' });
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should differ between documents', () => {
+      const annotation = { datetime: '2025-01-13 10:00:00' };
+
+      expect(annotation_id(metadata, annotation)).not.toBe(
+        annotation_id({ ...metadata, partial_md5_checksum: 'def456' }, annotation)
+      );
+    });
+
+    it('should fall back to positions when there is no datetime', () => {
+      const first = annotation_id(metadata, { pos0: 'a', pos1: 'b' });
+      const second = annotation_id(metadata, { pos0: 'c', pos1: 'd' });
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should be stored as a koreader-id property on bookmark blocks', () => {
+      const annotation = { datetime: '2025-01-13 10:00:00', pos0: 'a', text: 'Text' };
+      const result = handle_annotations_metadata({ ...metadata, annotations: [annotation] });
+
+      expect(result?.children?.[0]?.children?.[0]?.properties).toHaveProperty(
+        'koreader-id',
+        annotation_id(metadata, annotation)
+      );
+    });
+  });
+
+  describe('book_properties', () => {
+    it('should map the summary table and reading progress', () => {
+      const result = book_properties({
+        doc_props: { title: 'Test Book' },
+        percent_finished: 0.456,
+        summary: {
+          status: 'complete',
+          rating: 4,
+          note: 'Great read.\nWould recommend.',
+        },
+      }, getBookSettings());
+
+      expect(result).toMatchObject({
+        status: 'complete',
+        rating: 4,
+        progress: '46%',
+        review: 'Great read. Would recommend.',
+      });
+    });
+
+    it('should leave reading fields undefined without a summary', () => {
+      const result = book_properties({ doc_props: { title: 'Test Book' } }, getBookSettings());
+
+      expect(result.status).toBeUndefined();
+      expect(result.rating).toBeUndefined();
+      expect(result.progress).toBeUndefined();
+      expect(result.review).toBeUndefined();
+    });
+
+    it('should be included in book block properties', () => {
+      const result = handle_annotations_metadata({
+        doc_props: { title: 'Test Book' },
+        summary: { status: 'reading' },
+      });
+
+      expect(result?.properties).toHaveProperty('status', 'reading');
+    });
+  });
+
+  describe('book_series', () => {
+    it('should read the series and its index', () => {
+      expect(book_series({ doc_props: { series: 'Dune Chronicles', series_index: 2 } })).toEqual({ series: 'Dune Chronicles', seriesIndex: 2 });
+    });
+
+    it('should split an index left in the series name', () => {
+      expect(book_series({ doc_props: { series: 'Dune Chronicles #2' } })).toEqual({ series: 'Dune Chronicles', seriesIndex: 2 });
+    });
+
+    it('should be empty for books outside a series', () => {
+      expect(book_series({ doc_props: { title: 'Test Book' } })).toEqual({});
+    });
+  });
+
+  describe('render_highlight', () => {
+    it('should render a plain quote by default', () => {
+      const result = render_highlight('Some text', { color: 'red', drawer: 'lighten' }, getBookSettings());
+
+      expect(result).toBe('> Some text');
+    });
+
+    it('should render coloured Logseq highlights', () => {
+      mockLogseq.settings.highlightStyle = 'highlight';
+
+      expect(render_highlight('Some text', { color: 'red', drawer: 'lighten' }, getBookSettings())).toBe('> [[$red]]==Some text==');
+      expect(render_highlight('Some text', { color: 'cyan' }, getBookSettings())).toBe('> [[$blue]]==Some text==');
+      expect(render_highlight('Some text', {}, getBookSettings())).toBe('> ==Some text==');
+    });
+
+    it('should strike through strikeout highlights', () => {
+      mockLogseq.settings.highlightStyle = 'highlight';
+
+      const result = render_highlight('Some text', { color: 'red', drawer: 'strikeout' }, getBookSettings());
+
+      expect(result).toBe('> ~~Some text~~');
+    });
+
+    it('should append a colour tag', () => {
+      mockLogseq.settings.highlightStyle = 'tag';
+
+      expect(render_highlight('Some text', { color: 'green' }, getBookSettings())).toBe('> Some text #highlight-green');
+      expect(render_highlight('Some text', {}, getBookSettings())).toBe('> Some text');
+    });
+
+    it('should keep colour and drawer as block properties', () => {
+      const result = handle_annotations_metadata({
+        doc_props: { title: 'Test Book' },
+        annotations: [{ text: 'Some text', pos0: 'a', color: 'red', drawer: 'underscore' }],
+      });
+
+      const bookmarkBlock = result?.children?.[0]?.children?.[0];
+      expect(bookmarkBlock?.properties).toHaveProperty('color', 'red');
+      expect(bookmarkBlock?.properties).toHaveProperty('drawer', 'underscore');
+    });
+  });
+
+  describe('templates', () => {
+    const metadata = {
+      doc_props: { title: 'Test Book', authors: 'Author Name' },
+      annotations: [{ text: 'Some text', note: 'My note', pos0: 'a', pageno: 12, chapter: 'One', datetime: '2025-01-13 10:00:00' }],
+    };
+
+    it('should render the default format', () => {
+      const result = handle_annotations_metadata(metadata);
+
+      expect(result?.content).toBe('## Test Book');
+      expect(result?.children?.[0]?.content).toBe('### Bookmarks');
+      expect(result?.children?.[0]?.children?.[0]?.content).toBe('> Some text');
+      expect(result?.children?.[0]?.children?.[0]?.children?.[0]?.content).toBe('My note');
+    });
+
+    it('should render configured templates', () => {
+      mockLogseq.settings.pageHeaderTemplate = '{{title}} by {{authors}}';
+      mockLogseq.settings.sectionHeadingTemplate = 'Highlights';
+      mockLogseq.settings.highlightTemplate = '{{text}} (p. {{page}}, {{chapter}}, {{date}})';
+      mockLogseq.settings.noteTemplate = '**Note:** {{note}}';
+
+      const result = handle_annotations_metadata(metadata);
+
+      expect(result?.content).toBe('Test Book by Author Name');
+      expect(result?.children?.[0]?.content).toBe('Highlights');
+      expect(result?.children?.[0]?.children?.[0]?.content).toBe('Some text (p. 12, One, 2025-01-13 10:00:00)');
+      expect(result?.children?.[0]?.children?.[0]?.children?.[0]?.content).toBe('**Note:** My note');
+    });
+
+    it('should mark the book and section so they are found after a template change', () => {
+      mockLogseq.settings.pageHeaderTemplate = '{{title}}';
+
+      const result = handle_annotations_metadata(metadata);
+
+      expect(result?.properties).toHaveProperty('koreader-book', book_key('Test Book', 'Author Name'));
+      expect(result?.children?.[0]?.properties).toEqual({ 'koreader-section': 'bookmarks' });
+    });
+
+    it('should record a hash of what was written on annotations and notes', () => {
+      const result = handle_annotations_metadata(metadata);
+      const annotation = result?.children?.[0]?.children?.[0];
+
+      expect(annotation?.properties).toHaveProperty('koreader-hash', hashString('> Some text'));
+      expect(annotation?.children?.[0]?.properties).toEqual({ 'koreader-hash': hashString('My note') });
+    });
+
+        it('should leave notes out when the note template is empty', () => {
+      mockLogseq.settings.noteTemplate = '';
+
+      const result = handle_annotations_metadata(metadata);
+
+      expect(result?.children?.[0]?.children?.[0]?.children).toEqual([]);
+      expect(result?.children?.[0]?.children?.[0]?.properties).toHaveProperty('collapsed', false);
+    });
+  });
+
+  describe('lua_to_block', () => {
+    beforeEach(async () => {
+      const actual = await vi.importActual<typeof import('luaparse')>('luaparse');
+      vi.mocked(parse).mockImplementation(actual.parse);
+    });
+
+    it('should keep nested tables and native types', () => {
+      const { metadata, block } = lua_to_block(`
+        return {
+            ["annotations"] = {
+                [1] = {
+                    ["datetime"] = "2025-01-13 10:00:00",
+                    ["pageno"] = 10,
+                    ["pos0"] = "/body/DocFragment[2]/body/p[1]/text().0",
+                    ["text"] = "Highlighted - text",
+                },
+            },
+            ["doc_props"] = {
+                ["authors"] = "Author One\\
+Author Two",
+                ["title"] = "Test Book",
+            },
+            ["percent_finished"] = 0.5,
+            ["summary"] = {
+                ["status"] = "reading",
+            },
+        }
+      `);
+
+      expect(metadata.percent_finished).toBe(0.5);
+      expect(metadata.summary).toEqual({ status: 'reading' });
+      expect(metadata.annotations?.[0].pageno).toBe(10);
+      expect(block?.properties).toHaveProperty('authors', 'Author One, Author Two');
+      expect(block?.children?.[0]?.children?.[0]).toHaveProperty('content', '> Highlighted \\- text');
+    });
+
+    it('should read an emptied annotations table as no annotations', () => {
+      const { metadata, block } = lua_to_block(`
+        return {
+            ["annotations"] = {},
+            ["doc_props"] = {
+                ["title"] = "Test Book",
+            },
+        }
+      `);
+
+      expect(metadata.annotations).toEqual([]);
+      expect(block).toBeNull();
+      expect(annotation_stats(metadata)).toEqual({ highlights: 0, notes: 0 });
+    });
+  });
 });
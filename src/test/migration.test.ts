@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { parse } from 'luaparse';
+import { migrateToPerPageMode } from '../migration';
+import { logseq as mockLogseq } from './setup';
+
+function directoryWith(files: Record<string, string>) {
+  return {
+    kind: 'directory',
+    async *values() {
+      for (const [name, text] of Object.entries(files)) {
+        yield {
+          kind: 'directory',
+          name,
+          async *values() {
+            yield { kind: 'file', getFile: async () => ({ name: 'metadata.epub.lua', text: async () => text }) };
+          },
+        };
+      }
+    },
+  };
+}
+
+const bookLua = `
+  return {
+      ["annotations"] = {
+          [1] = { ["datetime"] = "2025-01-13 10:00:00", ["pos0"] = "a", ["text"] = "Text" },
+      },
+      ["doc_props"] = { ["authors"] = "Author", ["title"] = "Test Book" },
+  }
+`;
+
+describe('migrateToPerPageMode', () => {
+  beforeAll(async () => {
+    const actual = await vi.importActual<typeof import('luaparse')>('luaparse');
+    vi.mocked(parse).mockImplementation(actual.parse);
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = { pageNamingConvention: 'title_only' };
+    (mockLogseq.Editor.getPage as any).mockResolvedValue(null);
+    (mockLogseq.Editor.createPage as any).mockResolvedValue({ uuid: 'page-uuid', originalName: 'Test Book' });
+    (mockLogseq.Editor.appendBlockInPage as any).mockResolvedValue({ uuid: 'anchor-uuid' });
+  });
+
+  function syncPage(...books: object[]) {
+    mockLogseq.Editor.getPageBlocksTree.mockImplementation((page: string) => Promise.resolve(
+      page === '_logseq-koreader-sync'
+        ? [{ uuid: 'lkrs-uuid', content: '# 📚 LKRS: KOReader', children: books }]
+        : []
+    ));
+  }
+
+  it('should move matched books onto their own page', async () => {
+    syncPage({
+      uuid: 'book-uuid',
+      content: '## Test Book',
+      properties: { authors: 'Author' },
+      children: [{ uuid: 'bookmarks-uuid', content: '### Bookmarks' }],
+    });
+
+    const report = await migrateToPerPageMode(directoryWith({ 'Test Book.sdr': bookLua }));
+
+    expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('book-uuid', 'anchor-uuid', { before: true });
+    expect(mockLogseq.Editor.moveBlock).toHaveBeenCalledWith('bookmarks-uuid', 'book-uuid', { before: false });
+    expect(mockLogseq.Editor.removeBlock).toHaveBeenCalledWith('book-uuid');
+    expect(mockLogseq.Editor.createPage).toHaveBeenCalledWith('Test Book', expect.objectContaining({
+      'koreader-source': 'Test Book.sdr/metadata.epub.lua',
+    }), { format: 'markdown', redirect: false });
+    expect(report.migrated.map(book => book.title)).toEqual(['Test Book']);
+    expect(report.skipped).toEqual([]);
+    expect(mockLogseq.updateSettings).toHaveBeenCalledWith({ syncMode: 'per-page' });
+  });
+
+  it('should keep a referenced title block', async () => {
+    syncPage({ uuid: 'book-uuid', content: '## Test Book', properties: { authors: 'Author' }, children: [] });
+    (mockLogseq.DB.datascriptQuery as any).mockResolvedValueOnce([[42]]);
+
+    await migrateToPerPageMode(directoryWith({ 'Test Book.sdr': bookLua }));
+
+    expect(mockLogseq.Editor.removeBlock).not.toHaveBeenCalledWith('book-uuid');
+  });
+
+  it('should report books without a metadata file', async () => {
+    syncPage({ uuid: 'other-uuid', content: '## Other Book', properties: {}, children: [] });
+
+    const report = await migrateToPerPageMode(directoryWith({ 'Test Book.sdr': bookLua }));
+
+    expect(report.migrated).toEqual([]);
+    expect(report.skipped).toEqual(['Other Book (no matching metadata file)']);
+    expect(mockLogseq.Editor.moveBlock).not.toHaveBeenCalled();
+    expect(mockLogseq.updateSettings).not.toHaveBeenCalled();
+  });
+});
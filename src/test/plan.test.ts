@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { planBookmarks, planOrphans, summarizePlan } from '../sync/plan';
+import { content_hash } from '../metadata';
+import { BookSettings, getBookSettings } from '../settings';
+
+describe('Sync Plan', () => {
+  const settings: BookSettings = { ...getBookSettings(), syncPageBookmarks: true };
+
+  describe('planBookmarks', () => {
+    it('should add annotations that do not exist yet', () => {
+      const operations = planBookmarks('Book', [], [
+        { content: '> New text', properties: { 'koreader-id': 'id-1' } },
+      ], settings, true);
+
+      expect(operations).toEqual([{ type: 'add-annotation', book: 'Book', detail: 'New text' }]);
+    });
+
+    it('should report nothing for unchanged annotations', () => {
+      const operations = planBookmarks('Book', [
+        { content: '> Text', properties: { koreaderId: 'id-1', page: 3 }, note: 'Note' },
+      ], [
+        { content: '> Text', properties: { 'koreader-id': 'id-1', 'page': 3 }, children: [{ content: 'Note' }] },
+      ], settings, true);
+
+      expect(operations).toEqual([]);
+    });
+
+    it('should update edited highlights and notes', () => {
+      const operations = planBookmarks('Book', [
+        { content: '> Old text', properties: { koreaderId: 'id-1' }, note: 'Old note' },
+      ], [
+        { content: '> New text', properties: { 'koreader-id': 'id-1' }, children: [{ content: 'New note' }] },
+      ], settings, true);
+
+      expect(operations.map(operation => operation.type)).toEqual(['update-annotation', 'update-note']);
+    });
+
+    it('should keep blocks edited in Logseq and report those KOReader changed too as conflicts', () => {
+      const written = content_hash('> Text');
+      const operations = planBookmarks('Book', [
+        { content: '> Text #important', properties: { koreaderId: 'id-1', koreaderHash: written } },
+        { content: '> Other text, fixed', properties: { koreaderId: 'id-2', koreaderHash: content_hash('> Other text') } },
+      ], [
+        { content: '> Text', properties: { 'koreader-id': 'id-1', 'koreader-hash': written } },
+        { content: '> Other text, changed', properties: { 'koreader-id': 'id-2', 'koreader-hash': content_hash('> Other text, changed') } },
+      ], settings, true);
+
+      expect(operations).toEqual([{ type: 'conflict', book: 'Book', detail: 'Other text, changed' }]);
+    });
+
+        it('should match legacy blocks by quote', () => {
+      const operations = planBookmarks('Book', [
+        { content: '> Text', properties: {} },
+      ], [
+        { content: '> Text', properties: { 'koreader-id': 'id-1' } },
+      ], settings, true);
+
+      expect(operations.map(operation => operation.type)).toEqual(['update-annotation']);
+    });
+
+    it('should remove annotations that disappeared only when asked to', () => {
+      const existing = [{ content: '> Gone', properties: { koreaderId: 'id-1' } }];
+
+      expect(planBookmarks('Book', existing, [], settings, true)).toEqual([
+        { type: 'remove-annotation', book: 'Book', detail: 'Gone' },
+      ]);
+      expect(planBookmarks('Book', existing, [], settings, false)).toEqual([]);
+    });
+
+    it('should not remove annotations that are already archived', () => {
+      const operations = planBookmarks('Book', [
+        { content: '> Gone', properties: { koreaderId: 'id-1', koreaderStatus: 'deleted' } },
+      ], [], settings, true);
+
+      expect(operations).toEqual([]);
+    });
+
+    it('should remove page bookmarks when they are no longer synced', () => {
+      const operations = planBookmarks('Book', [
+        { content: '> Page bookmark', properties: { koreaderId: 'id-1' } },
+      ], [], { ...settings, syncPageBookmarks: false }, false);
+
+      expect(operations).toEqual([{ type: 'remove-annotation', book: 'Book', detail: 'Page bookmark' }]);
+    });
+  });
+
+  describe('planOrphans', () => {
+    it('should report synced books whose metadata file is gone', () => {
+      const state = {
+        settingsHash: 'hash',
+        files: {
+          'Kept.sdr/metadata.epub.lua': { lastModified: 1, size: 1, hash: 'a', book: { title: 'Kept' } as any },
+          'Gone.sdr/metadata.epub.lua': { lastModified: 1, size: 1, hash: 'b', book: { title: 'Gone' } as any },
+          'Empty.sdr/metadata.epub.lua': { lastModified: 1, size: 1, hash: 'c' },
+        },
+      };
+
+      const operations = planOrphans([{ path: 'Kept.sdr/metadata.epub.lua', file: {} as File }], state);
+
+      expect(operations).toEqual([{ type: 'orphan', book: 'Gone', detail: 'Gone.sdr/metadata.epub.lua' }]);
+    });
+  });
+
+  describe('summarizePlan', () => {
+    it('should count operations per book', () => {
+      const summaries = summarizePlan([
+        { type: 'create-page', book: 'First' },
+        { type: 'add-annotation', book: 'First' },
+        { type: 'add-annotation', book: 'First' },
+        { type: 'remove-annotation', book: 'Second' },
+      ]);
+
+      expect(summaries).toHaveLength(2);
+      expect(summaries[0]).toEqual({
+        book: 'First',
+        counts: {
+          'create-page': 1,
+          'add-annotation': 2,
+          'update-annotation': 0,
+          'update-note': 0,
+          'remove-annotation': 0,
+          'conflict': 0,
+          'orphan': 0,
+        },
+      });
+      expect(summaries[1].counts['remove-annotation']).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { autoSyncInterval, scheduleAutoSync, stopAutoSync } from '../scheduler';
+import { isSyncRunning, withSyncLock } from '../sync/lock';
+import { logseq as mockLogseq } from './setup';
+
+describe('Automatic Sync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockLogseq.settings = {};
+  });
+
+  afterEach(() => {
+    stopAutoSync();
+    vi.useRealTimers();
+  });
+
+  describe('autoSyncInterval', () => {
+    it('should be off by default', () => {
+      expect(autoSyncInterval()).toBeNull();
+    });
+
+    it('should convert the configured minutes to milliseconds', () => {
+      mockLogseq.settings = { autoSync: true, autoSyncInterval: 5 };
+      expect(autoSyncInterval()).toBe(5 * 60 * 1000);
+    });
+
+    it('should default to 30 minutes', () => {
+      mockLogseq.settings = { autoSync: true };
+      expect(autoSyncInterval()).toBe(30 * 60 * 1000);
+    });
+
+    it('should treat a non-positive interval as off', () => {
+      mockLogseq.settings = { autoSync: true, autoSyncInterval: 0 };
+      expect(autoSyncInterval()).toBeNull();
+    });
+  });
+
+  describe('scheduleAutoSync', () => {
+    it('should sync on every interval', () => {
+      mockLogseq.settings = { autoSync: true, autoSyncInterval: 1 };
+      const sync = vi.fn(() => Promise.resolve());
+
+      scheduleAutoSync(sync);
+      vi.advanceTimersByTime(3 * 60 * 1000);
+
+      expect(sync).toHaveBeenCalledTimes(3);
+    });
+
+    it('should replace the previous schedule', () => {
+      mockLogseq.settings = { autoSync: true, autoSyncInterval: 1 };
+      const first = vi.fn(() => Promise.resolve());
+      const second = vi.fn(() => Promise.resolve());
+
+      scheduleAutoSync(first);
+      scheduleAutoSync(second);
+      vi.advanceTimersByTime(60 * 1000);
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not schedule anything when disabled', () => {
+      const sync = vi.fn(() => Promise.resolve());
+
+      scheduleAutoSync(sync);
+      vi.advanceTimersByTime(60 * 60 * 1000);
+
+      expect(sync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withSyncLock', () => {
+    it('should refuse to start a sync while another is running', async () => {
+      let finish!: () => void;
+      const first = withSyncLock(() => new Promise<void>(resolve => { finish = resolve; }));
+
+      expect(isSyncRunning()).toBe(true);
+      expect(await withSyncLock(() => Promise.resolve())).toBe(false);
+
+      finish();
+      expect(await first).toBe(true);
+      expect(isSyncRunning()).toBe(false);
+    });
+
+    it('should release the lock when a sync fails', async () => {
+      await expect(withSyncLock(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+
+      expect(isSyncRunning()).toBe(false);
+    });
+  });
+});
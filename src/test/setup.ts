@@ -5,8 +5,9 @@ const mockLogseq = {
   baseInfo: {
     id: 'test-plugin-id',
   },
-  settings: {},
+  settings: {} as Record<string, any>,
   useSettingsSchema: vi.fn(),
+  updateSettings: vi.fn(),
   onSettingsChanged: vi.fn(),
   provideModel: vi.fn(),
   provideUI: vi.fn(),
@@ -15,6 +16,8 @@ const mockLogseq = {
     pushState: vi.fn(),
     getUserConfigs: vi.fn(() => Promise.resolve({})),
     registerUIItem: vi.fn(),
+    registerCommandPalette: vi.fn(),
+    onCurrentGraphChanged: vi.fn(),
   },
   Editor: {
     getPage: vi.fn(),
@@ -26,6 +29,13 @@ const mockLogseq = {
     removeBlock: vi.fn(() => Promise.resolve()),
     getPageBlocksTree: vi.fn(),
     getBlock: vi.fn(() => Promise.resolve({})),
+    upsertBlockProperty: vi.fn(() => Promise.resolve()),
+    moveBlock: vi.fn(() => Promise.resolve()),
+    prependBlockInPage: vi.fn(() => Promise.resolve({})),
+    getNextSiblingBlock: vi.fn(() => Promise.resolve(null)),
+    removeBlockProperty: vi.fn(() => Promise.resolve()),
+    registerSlashCommand: vi.fn(),
+    appendBlockInPage: vi.fn(() => Promise.resolve({})),
   },
   UI: {
     showMsg: vi.fn(),
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { journalEntries, matchStatistics, readStatisticsDatabase, readingStatisticsProperties, summarizeReading } from '../statistics';
+
+// local times, so day boundaries do not depend on the machine's time zone
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 0, day, hour, minute).getTime() / 1000;
+
+describe('Reading Statistics', () => {
+  describe('summarizeReading', () => {
+    it('should return null without page turns', () => {
+      expect(summarizeReading([])).toBeNull();
+    });
+
+    it('should total reading time and split sessions on long gaps', () => {
+      const statistics = summarizeReading([
+        { page: 1, start_time: at(13, 10), duration: 60 },
+        { page: 2, start_time: at(13, 10, 1), duration: 120 },
+        { page: 2, start_time: at(13, 10, 5), duration: 60 },
+        { page: 3, start_time: at(13, 20), duration: 60 },
+        { page: 4, start_time: at(14, 9), duration: 300 },
+      ])!;
+
+      expect(statistics.totalReadTime).toBe(600);
+      expect(statistics.sessions).toBe(3);
+      expect(statistics.firstRead).toEqual(new Date(2025, 0, 13, 10));
+      expect(statistics.lastRead).toEqual(new Date(2025, 0, 14, 9, 5));
+      expect(statistics.days).toEqual({
+        '2025-01-13': { duration: 300, pages: 3 },
+        '2025-01-14': { duration: 300, pages: 1 },
+      });
+    });
+  });
+
+  describe('matchStatistics', () => {
+    const statistics = summarizeReading([{ page: 1, start_time: at(13, 10), duration: 60 }])!;
+    const books = [
+      { title: 'Other', md5: 'abc', statistics },
+      { title: 'Book', authors: 'Author', statistics },
+    ];
+
+    it('should match by md5 first', () => {
+      expect(matchStatistics(books, { title: 'Renamed', md5: 'abc' } as any)?.title).toBe('Other');
+    });
+
+    it('should fall back to title and authors', () => {
+      expect(matchStatistics(books, { title: 'Book', authors: 'Author' } as any)?.title).toBe('Book');
+      expect(matchStatistics(books, { title: 'Book', authors: 'Someone Else' } as any)).toBeUndefined();
+    });
+  });
+
+  describe('readingStatisticsProperties', () => {
+    it('should link the first and last read dates to journal pages', () => {
+      const statistics = summarizeReading([
+        { page: 1, start_time: at(13, 10), duration: 3900 },
+      ])!;
+
+      expect(readingStatisticsProperties(statistics, 'MMM do, yyyy')).toEqual({
+        'reading-time': '1h 5m',
+        'first-read': '[[Jan 13th, 2025]]',
+        'last-read': '[[Jan 13th, 2025]]',
+        'reading-sessions': 1,
+      });
+    });
+  });
+
+  describe('journalEntries', () => {
+    it('should write one entry per book and day', () => {
+      const statistics = summarizeReading([
+        { page: 1, start_time: at(13, 10), duration: 1800 },
+        { page: 2, start_time: at(14, 10), duration: 60 },
+      ])!;
+
+      const entries = journalEntries([
+        { book: { pageName: 'Author - Book' } as any, statistics: { title: 'Book', md5: 'abc', statistics } },
+      ]);
+
+      expect(entries).toEqual({
+        '2025-01-13': [{ content: 'Read [[Author - Book]] for 30m, 1 page', properties: { 'koreader-stats': 'abc' } }],
+        '2025-01-14': [{ content: 'Read [[Author - Book]] for 1m, 1 page', properties: { 'koreader-stats': 'abc' } }],
+      });
+    });
+  });
+
+  describe('readStatisticsDatabase', () => {
+    it('should read books and their page turns', async () => {
+      const initSqlJs = (await import('sql.js/dist/sql-asm.js')).default;
+      const SQL = await initSqlJs();
+      const db = new SQL.Database();
+      db.run(`
+        CREATE TABLE book (id INTEGER PRIMARY KEY, title TEXT, authors TEXT, md5 TEXT);
+        CREATE TABLE page_stat_data (id_book INTEGER, page INTEGER, start_time INTEGER, duration INTEGER, total_pages INTEGER);
+        INSERT INTO book VALUES (1, 'Book', 'Author One\nAuthor Two', 'abc'), (2, 'Unread', 'Author', 'def');
+        INSERT INTO page_stat_data VALUES (1, 2, ${at(13, 10, 1)}, 60, 100), (1, 1, ${at(13, 10)}, 60, 100);
+      `);
+      const data = db.export();
+      db.close();
+
+      const books = await readStatisticsDatabase(data);
+
+      expect(books).toHaveLength(1);
+      expect(books[0]).toMatchObject({ title: 'Book', authors: 'Author One, Author Two', md5: 'abc' });
+      expect(books[0].statistics.firstRead).toEqual(new Date(2025, 0, 13, 10));
+      expect(books[0].statistics.totalReadTime).toBe(120);
+    });
+  });
+});
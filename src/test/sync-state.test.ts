@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get, set } from 'idb-keyval';
+import { emptySyncState, fingerprintMatches, loadSyncState, saveSyncState } from '../sync-state';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+describe('Sync State', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('loadSyncState', () => {
+    it('should return an empty state when nothing was stored', async () => {
+      vi.mocked(get).mockResolvedValue(undefined);
+
+      const state = await loadSyncState(getBookSettings());
+
+      expect(state.files).toEqual({});
+    });
+
+    it('should return the stored state for unchanged settings', async () => {
+      const stored = emptySyncState(getBookSettings());
+      stored.files['Book.sdr/metadata.epub.lua'] = { lastModified: 1, size: 2, hash: 'abc' };
+      vi.mocked(get).mockResolvedValue(stored);
+
+      const state = await loadSyncState(getBookSettings());
+
+      expect(state).toEqual(stored);
+      expect(get).toHaveBeenCalledWith('logseq_koreader_sync__syncState__single-page');
+    });
+
+    it('should discard the stored state when settings changed', async () => {
+      const stored = emptySyncState(getBookSettings());
+      stored.files['Book.sdr/metadata.epub.lua'] = { lastModified: 1, size: 2, hash: 'abc' };
+      vi.mocked(get).mockResolvedValue(stored);
+      mockLogseq.settings = { highlightStyle: 'tag' };
+
+      const state = await loadSyncState(getBookSettings());
+
+      expect(state.files).toEqual({});
+    });
+
+    it('should discard the stored state when what happens to removed annotations changed', async () => {
+      const stored = emptySyncState(getBookSettings());
+      stored.files['Book.sdr/metadata.epub.lua'] = { lastModified: 1, size: 2, hash: 'abc' };
+      vi.mocked(get).mockResolvedValue(stored);
+      mockLogseq.settings = { removedAnnotations: 'archive' };
+
+      const state = await loadSyncState(getBookSettings());
+
+      expect(state.files).toEqual({});
+    });
+
+    it('should keep the stored state when a setting that does not affect rendering changed', async () => {
+      const stored = emptySyncState(getBookSettings());
+      stored.files['Book.sdr/metadata.epub.lua'] = { lastModified: 1, size: 2, hash: 'abc' };
+      vi.mocked(get).mockResolvedValue(stored);
+      mockLogseq.settings = { previewBeforeSync: true, syncLogRuns: 3, kosyncServer: 'https://sync.koreader.rocks', indexSortOrder: 'author' };
+
+      const state = await loadSyncState(getBookSettings());
+
+      expect(state).toEqual(stored);
+    });
+  });
+
+  describe('saveSyncState', () => {
+    it('should store the state per sync mode', async () => {
+      mockLogseq.settings = { syncMode: 'per-page' };
+      const state = emptySyncState(getBookSettings());
+
+      await saveSyncState(getBookSettings(), state);
+
+      expect(set).toHaveBeenCalledWith('logseq_koreader_sync__syncState__per-page', state);
+    });
+  });
+
+  describe('fingerprintMatches', () => {
+    const file = { lastModified: 1000, size: 42 } as File;
+
+    it('should match on equal modification time and size', () => {
+      expect(fingerprintMatches({ lastModified: 1000, size: 42, hash: 'abc' }, file)).toBe(true);
+    });
+
+    it('should not match a modified file', () => {
+      expect(fingerprintMatches({ lastModified: 999, size: 42, hash: 'abc' }, file)).toBe(false);
+      expect(fingerprintMatches({ lastModified: 1000, size: 41, hash: 'abc' }, file)).toBe(false);
+    });
+
+    it('should not match a file that was never synced', () => {
+      expect(fingerprintMatches(undefined, file)).toBe(false);
+    });
+  });
+});
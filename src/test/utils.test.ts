@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { getBookSettings, normalizeAuthors, generatePageName, sanitizePageName, truncateString } from '../index';
+import { getBookSettings, normalizeAuthors, generatePageName, sanitizePageName, truncateString, hashString, md5Hex, formatJournalDate, formatDuration, renderTemplate, stripProperties } from '../index';
 import { logseq } from './setup';
 
 describe('Utility Functions', () => {
@@ -12,13 +12,37 @@ describe('Utility Functions', () => {
       const settings = getBookSettings();
 
       expect(settings).toEqual({
+        format: 'markdown',
+        previewBeforeSync: false,
+        syncLogRuns: 10,
         maxDescriptionLength: 250,
         collapseBookmarks: true,
         syncPageBookmarks: true,
+        removedAnnotations: 'delete',
+        highlightStyle: 'none',
+        pageHeaderTemplate: '## {{title}}',
+        sectionHeadingTemplate: '### Bookmarks',
+        highlightTemplate: '> {{text}}',
+        noteTemplate: '{{note}}',
+        writeBackNotes: false,
+        journalHighlights: false,
+        importReadingStatistics: false,
+        journalReadingEntries: false,
+        syncVocabulary: false,
+        vocabularyPageName: 'KOReader Vocabulary',
+        importKindleClippings: false,
+        importCalibreMetadata: false,
+        seriesAndCollectionPages: false,
+        kosyncServer: '',
+        kosyncUsername: '',
+        kosyncPassword: '',
         syncMode: 'single-page',
+        groupByChapter: false,
         pageNamingConvention: 'author_title',
         bookPagePrefix: '',
         indexPageName: 'KOReader Books',
+        indexGroupBy: 'status',
+        indexSortOrder: 'title',
         syncPageName: '_logseq-koreader-sync',
       });
     });
@@ -176,4 +200,78 @@ describe('Utility Functions', () => {
       expect(result).toBe('Exactly 10');
     });
   });
+
+  describe('hashString', () => {
+    it('should return 16 hex characters', () => {
+      expect(hashString('')).toMatch(/^[0-9a-f]{16}$/);
+      expect(hashString('some text')).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should be deterministic', () => {
+      expect(hashString('same input')).toBe(hashString('same input'));
+    });
+
+    it('should differ for different inputs', () => {
+      expect(hashString('input a')).not.toBe(hashString('input b'));
+    });
+  });
+
+  describe('md5Hex', () => {
+    it('should match known MD5 digests', () => {
+      expect(md5Hex('')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+      expect(md5Hex('abc')).toBe('900150983cd24fb0d6963f7d28e17f72');
+      expect(md5Hex('The quick brown fox jumps over the lazy dog')).toBe('9e107d9d372bb6826bd81d3542a419d6');
+    });
+
+    it('should hash inputs spanning several blocks', () => {
+      expect(md5Hex('a'.repeat(1000))).toBe('cabe45dcc9ae5b66ba86600cca6b8ba8');
+    });
+  });
+
+  describe('formatJournalDate', () => {
+    const date = new Date(2025, 0, 3);
+
+    it('should format the default Logseq date format', () => {
+      expect(formatJournalDate(date, 'MMM do, yyyy')).toBe('Jan 3rd, 2025');
+    });
+
+    it('should format numeric and weekday formats', () => {
+      expect(formatJournalDate(date, 'yyyy-MM-dd')).toBe('2025-01-03');
+      expect(formatJournalDate(date, 'EEEE, dd.MM.yyyy')).toBe('Friday, 03.01.2025');
+      expect(formatJournalDate(date, 'E, MMMM d yy')).toBe('Fri, January 3 25');
+    });
+
+    it('should use the right ordinal suffixes', () => {
+      expect(formatJournalDate(new Date(2025, 0, 11), 'do')).toBe('11th');
+      expect(formatJournalDate(new Date(2025, 0, 22), 'do')).toBe('22nd');
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format minutes and hours', () => {
+      expect(formatDuration(59)).toBe('1m');
+      expect(formatDuration(3600 * 2 + 300)).toBe('2h 5m');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill placeholders and leave other macros alone', () => {
+      expect(renderTemplate('{{text}} (p. {{page}}) {{embed [[x]]}} {{cards}}', { text: 'Quote', page: 3 }))
+        .toBe('Quote (p. 3) {{embed [[x]]}} {{cards}}');
+    });
+
+    it('should render missing values empty', () => {
+      expect(renderTemplate('{{text}} {{chapter}}', { text: 'Quote' })).toBe('Quote ');
+    });
+  });
+
+  describe('stripProperties', () => {
+    it('should drop property lines', () => {
+      expect(stripProperties('collapsed:: true\n> Quote\nkoreader-id:: abc')).toBe('> Quote');
+    });
+
+    it('should drop Org property drawers', () => {
+      expect(stripProperties('Bookmarks\n:PROPERTIES:\n:heading: 3\n:END:')).toBe('Bookmarks');
+    });
+  });
 });
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readVocabularyDatabase, syncVocabulary, vocabularyCard, vocabularyCardKey } from '../vocabulary';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+async function vocabularyDatabase(): Promise<Uint8Array> {
+  const initSqlJs = (await import('sql.js/dist/sql-asm.js')).default;
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE title (id INTEGER PRIMARY KEY, name TEXT UNIQUE, filter INTEGER);
+    CREATE TABLE vocabulary (word TEXT UNIQUE, title_id INTEGER, create_time INTEGER, review_time INTEGER,
+      due_time INTEGER, review_count INTEGER, prev_context TEXT, next_context TEXT, streak_count INTEGER);
+    INSERT INTO title VALUES (1, 'Test Book', 1);
+    INSERT INTO vocabulary VALUES ('lugubrious', 1, 2, 0, 0, 0, 'A ', ' look.', 0);
+    INSERT INTO vocabulary VALUES ('sesquipedalian', 1, 1, 0, 0, 0, 'Such ', ' words', 0);
+  `);
+  const data = db.export();
+  db.close();
+  return data;
+}
+
+describe('Vocabulary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+  });
+
+  describe('readVocabularyDatabase', () => {
+    it('should read words with their book and emphasised context, oldest first', async () => {
+      const words = await readVocabularyDatabase(await vocabularyDatabase());
+
+      expect(words).toEqual([
+        { word: 'sesquipedalian', book: 'Test Book', context: 'Such **sesquipedalian** words' },
+        { word: 'lugubrious', book: 'Test Book', context: 'A **lugubrious** look.' },
+      ]);
+    });
+  });
+
+  describe('vocabularyCard', () => {
+    it('should put the word on the front and the context and book on the back', () => {
+      const word = { word: 'lugubrious', book: 'Test Book', context: 'A **lugubrious** look.' };
+
+      expect(vocabularyCard(word, '[[Author - Test Book]]')).toEqual({
+        content: 'lugubrious #card',
+        properties: { 'koreader-vocab': vocabularyCardKey(word) },
+        children: [{ content: 'A **lugubrious** look.\n— [[Author - Test Book]]' }],
+      });
+    });
+
+    it('should key cards by word and book', () => {
+      const word = { word: 'lugubrious', book: 'Test Book', context: '' };
+
+      expect(vocabularyCardKey(word)).toBe(vocabularyCardKey({ ...word, context: 'different' }));
+      expect(vocabularyCardKey(word)).not.toBe(vocabularyCardKey({ ...word, book: 'Other Book' }));
+    });
+  });
+
+  describe('syncVocabulary', () => {
+    it('should only add cards that do not exist yet', async () => {
+      mockLogseq.settings = { syncMode: 'per-page' };
+      const data = await vocabularyDatabase();
+      const directory = {
+        async *values() {
+          yield { kind: 'file', name: 'vocabulary_builder.sqlite3', getFile: async () => ({ lastModified: 1, size: data.length, arrayBuffer: async () => data }) };
+        },
+      };
+      const existingKey = vocabularyCardKey({ word: 'sesquipedalian', book: 'Test Book', context: '' });
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'vocabulary-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([
+        { uuid: 'card-uuid', content: 'sesquipedalian #card', properties: { koreaderVocab: existingKey, cardRepeats: 3 } },
+      ]);
+      (mockLogseq.Editor.appendBlockInPage as any).mockResolvedValue({ uuid: 'new-card-uuid' });
+
+      const fingerprint = await syncVocabulary(directory, [
+        { title: 'Test Book', pageName: 'Author - Test Book' } as any,
+      ], getBookSettings());
+
+      expect(mockLogseq.Editor.appendBlockInPage).toHaveBeenCalledTimes(1);
+      expect(mockLogseq.Editor.appendBlockInPage).toHaveBeenCalledWith('vocabulary-uuid', 'lugubrious #card', expect.anything());
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('new-card-uuid', 'A **lugubrious** look.\n— [[Author - Test Book]]', expect.anything());
+      expect(mockLogseq.Editor.updateBlock).not.toHaveBeenCalled();
+      expect(fingerprint).toEqual({ lastModified: 1, size: data.length });
+    });
+
+    it('should name the book without linking it in single-page mode', async () => {
+      const data = await vocabularyDatabase();
+      const directory = {
+        async *values() {
+          yield { kind: 'file', name: 'vocabulary_builder.sqlite3', getFile: async () => ({ lastModified: 1, size: data.length, arrayBuffer: async () => data }) };
+        },
+      };
+      (mockLogseq.Editor.getPage as any).mockResolvedValue({ uuid: 'vocabulary-uuid' });
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([]);
+      (mockLogseq.Editor.appendBlockInPage as any).mockResolvedValue({ uuid: 'new-card-uuid' });
+
+      await syncVocabulary(directory, [], getBookSettings());
+
+      expect(mockLogseq.Editor.insertBlock).toHaveBeenCalledWith('new-card-uuid', 'Such **sesquipedalian** words\n— Test Book', expect.anything());
+    });
+  });
+});
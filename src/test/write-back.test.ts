@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parse } from 'luaparse';
+import { applyNoteEdits, changedPages, editedNotes, syncedNotes, writeBackNotes } from '../sync/write-back';
+import { parseLuaTable } from '../lua';
+import { annotation_id, annotation_notes } from '../metadata';
+import { getBookSettings } from '../settings';
+import { logseq as mockLogseq } from './setup';
+
+const SIDECAR = `-- we can read Lua syntax here!
+return {
+    ["annotations"] = {
+        [1] = {
+            ["datetime"] = "2025-01-13 21:30:00",
+            ["note"] = "First thoughts",
+            ["pageno"] = 12,
+            ["pos0"] = "/body/p[3]",
+            ["text"] = "Fear is the mind-killer.",
+        },
+        [2] = {
+            ["datetime"] = "2025-01-14 08:00:00",
+            ["pageno"] = 40,
+            ["pos0"] = "/body/p[9]",
+            ["text"] = "The spice must flow.",
+        },
+    },
+    ["doc_props"] = {
+        ["title"] = "Dune",
+    },
+    ["partial_md5_checksum"] = "a1b2c3",
+}
+`;
+
+function sidecar() {
+  return parseLuaTable(SIDECAR) as any;
+}
+
+/** A directory holding one file, whose writes are recorded in `written` */
+function directory(text: string) {
+  const written: Record<string, string> = {};
+  const fileHandle = (name: string) => ({
+    getFile: () => Promise.resolve({ text: () => Promise.resolve(text) }),
+    createWritable: () => Promise.resolve({
+      write: (contents: string) => { written[name] = contents; return Promise.resolve(); },
+      close: () => Promise.resolve(),
+    }),
+  });
+  const sdr = { getFileHandle: vi.fn((name: string) => Promise.resolve(fileHandle(name))) };
+  return { handle: { getDirectoryHandle: vi.fn(() => Promise.resolve(sdr)) }, written };
+}
+
+describe('Writing notes back', () => {
+  let first: string;
+  let second: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockLogseq.settings = {};
+    const actual = await vi.importActual<typeof import('luaparse')>('luaparse');
+    vi.mocked(parse).mockImplementation(actual.parse);
+    [first, second] = sidecar().annotations.map((annotation: any) => annotation_id(sidecar(), annotation));
+  });
+
+  describe('changedPages', () => {
+    it('should look up the pages with blocks changed since the last sync', async () => {
+      (mockLogseq.DB.datascriptQuery as any).mockResolvedValueOnce([['page-uuid'], ['other-uuid']]);
+
+      const pages = await changedPages(1736800000000);
+
+      expect(mockLogseq.DB.datascriptQuery).toHaveBeenCalledWith(expect.stringContaining('[(> ?updated 1736800000000)]'));
+      expect(pages).toEqual(new Set(['page-uuid', 'other-uuid']));
+    });
+  });
+
+  describe('editedNotes', () => {
+    it('should find notes edited or added in Logseq, under chapter headings too', async () => {
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{
+        content: '### Bookmarks',
+        properties: { koreaderSection: 'bookmarks' },
+        children: [
+          { content: '> Fear', properties: { koreaderId: first }, children: [{ content: 'Second thoughts' }] },
+          {
+            content: '#### Chapter 2',
+            properties: {},
+            children: [
+              { content: '> Spice', properties: { koreaderId: second }, children: [{ content: 'A new note\nid:: 6789' }] },
+              { content: '> Kindle', properties: { koreaderId: 'kindle-id', source: 'kindle' }, children: [{ content: 'Edited' }] },
+              { content: '> Unchanged', properties: { koreaderId: 'same-id' }, children: [{ content: 'Same' }] },
+            ],
+          },
+        ],
+      }]);
+
+      const edits = await editedNotes('page-uuid', { [first]: 'First thoughts', 'same-id': 'Same' });
+
+      expect(edits).toEqual({ [first]: 'Second thoughts', [second]: 'A new note' });
+    });
+  });
+
+  describe('applyNoteEdits', () => {
+    const now = new Date(2025, 1, 2, 9, 5, 3);
+
+    it('should replace the notes edited in Logseq and mark them updated', () => {
+      const metadata = sidecar();
+      const synced = annotation_notes(metadata, getBookSettings());
+
+      const result = applyNoteEdits(metadata, { [first]: 'Second thoughts', [second]: 'A new note' }, synced, getBookSettings(), now);
+
+      expect(result).toEqual({ applied: [first, second], conflicts: [], skipped: [] });
+      expect(metadata.annotations[0].note).toBe('Second thoughts');
+      expect(metadata.annotations[0].datetime_updated).toBe('2025-02-02 09:05:03');
+      expect(metadata.annotations[1].note).toBe('A new note');
+    });
+
+    it('should read the note out of the note template', () => {
+      mockLogseq.settings = { noteTemplate: '**Note:** {{note}} (p. {{page}})' };
+      const metadata = sidecar();
+      const synced = annotation_notes(metadata, getBookSettings());
+
+      applyNoteEdits(metadata, { [first]: '**Note:** A mind\\-killer indeed (p. 12)' }, synced, getBookSettings(), now);
+
+      expect(metadata.annotations[0].note).toBe('A mind-killer indeed');
+    });
+
+    it('should skip edits it cannot write back, saying why', () => {
+      mockLogseq.settings = { noteTemplate: '{{note}} / {{note}}' };
+      const metadata = sidecar();
+      const synced = annotation_notes(metadata, getBookSettings());
+
+      const result = applyNoteEdits(metadata, { [first]: 'Second thoughts', gone: 'Lost thoughts' }, synced, getBookSettings(), now);
+
+      expect(result.applied).toEqual([]);
+      expect(result.skipped).toEqual([
+        { id: first, note: 'Second thoughts', reason: 'the note template does not show the note exactly once' },
+        { id: 'gone', note: 'Lost thoughts', reason: 'its highlight is no longer in KOReader' },
+      ]);
+      expect(metadata.annotations[0].note).toBe('First thoughts');
+    });
+
+    it('should skip edits of books whose notes are in the legacy bookmarks table', () => {
+      const { annotations, ...legacy } = sidecar();
+
+      const result = applyNoteEdits({ ...legacy, bookmarks: annotations }, { [first]: 'Second thoughts' }, {}, getBookSettings(), now);
+
+      expect(result.skipped).toEqual([{ id: first, note: 'Second thoughts', reason: expect.stringContaining('bookmarks table') }]);
+    });
+
+    it('should report notes also changed in KOReader as conflicts and leave them alone', () => {
+      const metadata = sidecar();
+
+      const result = applyNoteEdits(metadata, { [first]: 'Second thoughts' }, { [first]: 'Older thoughts' }, getBookSettings(), now);
+
+      expect(result).toEqual({ applied: [], conflicts: [first], skipped: [] });
+      expect(metadata.annotations[0].note).toBe('First thoughts');
+    });
+
+    it('should skip notes both sides agree on', () => {
+      const metadata = sidecar();
+
+      const result = applyNoteEdits(metadata, { [first]: 'First thoughts' }, { [first]: 'Older thoughts' }, getBookSettings(), now);
+
+      expect(result).toEqual({ applied: [], conflicts: [], skipped: [] });
+    });
+  });
+
+  describe('syncedNotes', () => {
+    it('should remember what was synced, except for notes in conflict', () => {
+      const notes = syncedNotes(sidecar(), getBookSettings(), [first], { [first]: 'Older thoughts' });
+
+      expect(notes).toEqual({ [first]: 'Older thoughts' });
+    });
+  });
+
+  describe('writeBackNotes', () => {
+    const file = { text: () => Promise.resolve(SIDECAR) } as any;
+
+    it('should write the edited notes into the metadata file after backing it up', async () => {
+      const { handle, written } = directory(SIDECAR);
+      const synced = annotation_notes(sidecar(), getBookSettings());
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{
+        content: '### Bookmarks',
+        properties: { koreaderSection: 'bookmarks' },
+        children: [{ content: '> Fear', properties: { koreaderId: first }, children: [{ content: 'Second thoughts' }] }],
+      }]);
+
+      const result = await writeBackNotes(handle, 'Dune.sdr/metadata.epub.lua', file, { pageUUID: 'page-uuid', notes: synced } as any, getBookSettings());
+
+      expect(handle.getDirectoryHandle).toHaveBeenCalledWith('Dune.sdr');
+      expect(written['metadata.epub.lua.bak']).toBe(SIDECAR);
+      expect(written['metadata.epub.lua']).toBe(result.text);
+      expect(result.text).toMatch(/^-- we can read Lua syntax here!\nreturn \{/);
+      const metadata = parseLuaTable(result.text!) as any;
+      expect(metadata.annotations[0].note).toBe('Second thoughts');
+      expect(metadata.annotations[1]).toEqual(sidecar().annotations[1]);
+    });
+
+    it('should report an edit it cannot write back only once', async () => {
+      mockLogseq.settings = { noteTemplate: '{{note}} / {{note}}' };
+      const { handle, written } = directory(SIDECAR);
+      const synced = annotation_notes(sidecar(), getBookSettings());
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{
+        content: '### Bookmarks',
+        properties: { koreaderSection: 'bookmarks' },
+        children: [{ content: '> Fear', properties: { koreaderId: first }, children: [{ content: 'Second thoughts' }] }],
+      }]);
+
+      const result = await writeBackNotes(handle, 'Dune.sdr/metadata.epub.lua', file, { pageUUID: 'page-uuid', notes: synced } as any, getBookSettings());
+      const again = await writeBackNotes(handle, 'Dune.sdr/metadata.epub.lua', file, { pageUUID: 'page-uuid', notes: synced, unwritten: result.unwritten } as any, getBookSettings());
+
+      expect(result.skipped).toHaveLength(1);
+      expect(result.unwritten).toEqual({ [first]: 'Second thoughts' });
+      expect(again.skipped).toEqual([]);
+      expect(again.unwritten).toEqual(result.unwritten);
+      expect(written).toEqual({});
+    });
+
+    it('should skip edits of a book whose highlights were all removed in KOReader', async () => {
+      const emptied = SIDECAR.replace(/\["annotations"\] = \{[\s\S]*?\n {4}\},\n/, '["annotations"] = {},\n');
+      const { handle, written } = directory(emptied);
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{
+        content: '### Bookmarks',
+        properties: { koreaderSection: 'bookmarks' },
+        children: [{ content: '> Fear', properties: { koreaderId: first }, children: [{ content: 'Second thoughts' }] }],
+      }]);
+
+      const result = await writeBackNotes(handle, 'Dune.sdr/metadata.epub.lua', { text: () => Promise.resolve(emptied) } as any, { pageUUID: 'page-uuid', notes: {} } as any, getBookSettings());
+
+      expect(result.text).toBeNull();
+      expect(result.skipped).toEqual([{ id: first, note: 'Second thoughts', reason: 'its highlight is no longer in KOReader' }]);
+      expect(written).toEqual({});
+    });
+
+    it('should leave the file alone when no note was edited', async () => {
+      const { handle, written } = directory(SIDECAR);
+      const synced = annotation_notes(sidecar(), getBookSettings());
+      mockLogseq.Editor.getPageBlocksTree.mockResolvedValue([{
+        content: '### Bookmarks',
+        properties: { koreaderSection: 'bookmarks' },
+        children: [{ content: '> Fear', properties: { koreaderId: first }, children: [{ content: 'First thoughts' }] }],
+      }]);
+
+      const result = await writeBackNotes(handle, 'Dune.sdr/metadata.epub.lua', file, { pageUUID: 'page-uuid', notes: synced } as any, getBookSettings());
+
+      expect(result.text).toBeNull();
+      expect(written).toEqual({});
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import '@logseq/libs'
 import { BlockEntity } from '@logseq/libs/dist/LSPlugin'
 import { BookSettings } from './settings'
+import type { KOReaderMetadata } from './metadata'
 
 export const delay = (t = 100) => new Promise(r => setTimeout(r, t))
 
@@ -34,10 +35,10 @@ export function truncateString(str: string | null | undefined, length: number):
 
 export function normalizeAuthors(authors: string | undefined): string | undefined {
   if (!authors) return undefined
-  return authors.replace(/\\\n/g, ', ')
+  return authors.replace(/\\?\n/g, ', ')
 }
 
-export function generatePageName(metadata: any, settings: BookSettings): string {
+export function generatePageName(metadata: KOReaderMetadata, settings: BookSettings): string {
   const prefix = settings.bookPagePrefix
   const title = metadata.doc_props.title || "Untitled Book"
   const authors = normalizeAuthors(metadata.doc_props.authors)
@@ -55,3 +56,135 @@ export function sanitizePageName(name: string): string {
     .trim()
     .substring(0, 100)
 }
+
+/** Fast, non-cryptographic 64-bit FNV-1a hash of a string, returned as 16 hex characters. */
+export function hashString(str: string): string {
+  let hash = 0xcbf29ce484222325n
+  for (const byte of new TextEncoder().encode(str)) {
+    hash ^= BigInt(byte)
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn
+  }
+  return hash.toString(16).padStart(16, '0')
+}
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21]
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0)
+
+/** MD5 of a string's UTF-8 bytes as 32 hex characters, as kosync expects of user keys. Not for anything security-sensitive. */
+export function md5Hex(str: string): string {
+  const bytes = new TextEncoder().encode(str)
+  const length = ((bytes.length + 8) >>> 6) + 1 << 4
+  const words = new Uint32Array(length)
+  bytes.forEach((byte, i) => { words[i >> 2] |= byte << (i % 4 * 8) })
+  words[bytes.length >> 2] |= 0x80 << (bytes.length % 4 * 8)
+  words[length - 2] = bytes.length * 8
+  words[length - 1] = Math.floor(bytes.length / 0x20000000)
+
+  let [a0, b0, c0, d0] = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]
+  for (let block = 0; block < length; block += 16) {
+    let [a, b, c, d] = [a0, b0, c0, d0]
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4
+      const f = round === 0 ? (b & c) | (~b & d)
+        : round === 1 ? (d & b) | (~d & c)
+        : round === 2 ? b ^ c ^ d
+        : c ^ (b | ~d)
+      const g = round === 0 ? i : round === 1 ? (5 * i + 1) % 16 : round === 2 ? (3 * i + 5) % 16 : (7 * i) % 16
+      const sum = (a + f + MD5_CONSTANTS[i] + words[block + g]) | 0
+      const shift = MD5_SHIFTS[round * 4 + i % 4]
+      a = d
+      d = c
+      c = b
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0
+    }
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+
+  return [a0, b0, c0, d0].map(word =>
+    Array.from({ length: 4 }, (_, i) => ((word >>> (i * 8)) & 0xff).toString(16).padStart(2, '0')).join('')).join('')
+}
+
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"]
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th"
+  return `${n}${suffix}`
+}
+
+/** Names a journal page the way Logseq does, given the user's `preferredDateFormat`. */
+export function formatJournalDate(date: Date, format: string): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+
+  return format.replace(/yyyy|yy|MMMM|MMM|MM|M|do|dd|d|EEEE|EEE|EE|E/g, token => {
+    switch (token) {
+      case "yyyy": return String(date.getFullYear())
+      case "yy": return pad(date.getFullYear() % 100)
+      case "MMMM": return MONTH_NAMES[date.getMonth()]
+      case "MMM": return MONTH_NAMES[date.getMonth()].substring(0, 3)
+      case "MM": return pad(date.getMonth() + 1)
+      case "M": return String(date.getMonth() + 1)
+      case "do": return ordinal(date.getDate())
+      case "dd": return pad(date.getDate())
+      case "d": return String(date.getDate())
+      case "EEEE": return DAY_NAMES[date.getDay()]
+      default: return DAY_NAMES[date.getDay()].substring(0, 3)
+    }
+  })
+}
+
+/** Formats a number of seconds as e.g. "2h 5m" */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) {
+    return `${minutes}m`
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+/** The placeholders annotation templates can use; any other `{{...}}`, such as a Logseq macro, is left alone. */
+export const TEMPLATE_PLACEHOLDERS = ["text", "note", "page", "chapter", "color", "date", "title", "authors"] as const
+
+export type TemplateValues = Partial<Record<typeof TEMPLATE_PLACEHOLDERS[number], string | number>>
+
+/** Fills the `{{placeholder}}`s of a template; placeholders without a value render empty. */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name) ? String(values[name as keyof TemplateValues] ?? '') : match)
+}
+
+/** Block entities expose `some-property` as `someProperty` */
+export function propertyKey(key: string): string {
+  return key.replace(/-(\w)/g, (_, char: string) => char.toUpperCase())
+}
+
+/**
+ * A property value as text to compare with what a block entity exposes, which has page links
+ * parsed into a list of page names.
+ */
+export function propertyText(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(propertyText).join(', ')
+  }
+  return String(value).replace(/\[\[([^\]]*)\]\]/g, '$1')
+}
+
+/** The content of a block without its Markdown `key:: value` property lines or its Org property drawer. */
+export function stripProperties(content: string): string {
+  const lines: string[] = []
+  let inDrawer = false
+
+  for (const line of content.split('\n')) {
+    if (line.trim() === ':PROPERTIES:') {
+      inDrawer = true
+    } else if (inDrawer) {
+      inDrawer = line.trim() !== ':END:'
+    } else if (!/^[\w-]+::/.test(line)) {
+      lines.push(line)
+    }
+  }
+  return lines.join('\n').trimEnd()
+}
@@ -0,0 +1,114 @@
+import '@logseq/libs'
+import { IBatchBlock } from '@logseq/libs/dist/LSPlugin'
+import { BookSettings } from './settings'
+import { BookInfo } from './book-pages'
+import { findFile } from './filesystem'
+import { insertBlockTree } from './block-tree'
+import { openDatabase } from './sqlite'
+import { FileFingerprint } from './sync-state'
+import { BlockFormat } from './format'
+import { generatePageName, hashString, sanitizePageName } from './utils'
+
+/** A word looked up in KOReader's vocabulary builder */
+export interface VocabularyWord {
+  word: string
+  /** Title of the book it was looked up in */
+  book: string
+  /** The sentence around the word, with the word in bold */
+  context: string
+}
+
+/** Reads the looked-up words out of a `vocabulary_builder.sqlite3` file, oldest first. */
+export async function readVocabularyDatabase(data: Uint8Array): Promise<VocabularyWord[]> {
+  const db = await openDatabase(data)
+
+  try {
+    const [rows] = db.exec(`
+      SELECT vocabulary.word, title.name, vocabulary.prev_context, vocabulary.next_context
+      FROM vocabulary LEFT JOIN title ON title.id = vocabulary.title_id
+      ORDER BY vocabulary.create_time
+    `)
+
+    return (rows?.values ?? []).map(([word, book, prev, next]) => ({
+      word: String(word),
+      book: String(book ?? ''),
+      context: `${prev ?? ''}**${word}**${next ?? ''}`.trim(),
+    }))
+  } finally {
+    db.close()
+  }
+}
+
+/** Identifies a card by word and book, so a word looked up again is not added twice */
+export function vocabularyCardKey(word: VocabularyWord): string {
+  return hashString(`${word.word}|${word.book}`)
+}
+
+/**
+ * Links to the synced book page, or to the page per-page mode would create for a book it has not seen.
+ * Single-page mode has no book pages, so the title is left as plain text rather than linking to a page that does not exist.
+ */
+function bookReference(book: string, books: BookInfo[], settings: BookSettings): string {
+  if (settings.syncMode !== "per-page") {
+    return book
+  }
+  const synced = books.find(info => info.title.toLowerCase() === book.toLowerCase())
+  return `[[${synced?.pageName ?? sanitizePageName(generatePageName({ doc_props: { title: book } }, settings))}]]`
+}
+
+/** @param book how the back of the card refers to the book, such as a page link */
+export function vocabularyCard(word: VocabularyWord, book: string, format: BlockFormat = "markdown"): IBatchBlock {
+  // the context marks the word in Markdown bold, which Org writes with single asterisks
+  const context = format === "org" ? word.context.replace(`**${word.word}**`, `*${word.word}*`) : word.context
+
+  return {
+    content: `${word.word} #card`,
+    properties: { 'koreader-vocab': vocabularyCardKey(word) },
+    children: [
+      { content: `${context}\n— ${book}` },
+    ],
+  }
+}
+
+/**
+ * Adds a flashcard to the vocabulary page for every word looked up in KOReader that has no card yet.
+ * Existing cards are never rewritten, since that would reset their review history. Does nothing if
+ * `vocabulary_builder.sqlite3` has not changed since `previous`.
+ */
+export async function syncVocabulary(
+  directoryHandle: any,
+  books: BookInfo[],
+  settings: BookSettings,
+  previous?: FileFingerprint
+): Promise<FileFingerprint | undefined> {
+  const file = await findFile(directoryHandle, "vocabulary_builder.sqlite3")
+  if (!file) {
+    console.warn("KOReader Sync: vocabulary_builder.sqlite3 not found in the KOReader directory, skipping vocabulary.")
+    return previous
+  }
+
+  if (previous && previous.lastModified === file.lastModified && previous.size === file.size) {
+    return previous
+  }
+
+  const words = await readVocabularyDatabase(new Uint8Array(await file.arrayBuffer()))
+  const page = await logseq.Editor.getPage(settings.vocabularyPageName)
+    ?? await logseq.Editor.createPage(settings.vocabularyPageName, {}, { redirect: false })
+  const existing = new Set(
+    (await logseq.Editor.getPageBlocksTree(page!.uuid) || []).map(block => String(block.properties?.koreaderVocab))
+  )
+
+  for (const word of words) {
+    const key = vocabularyCardKey(word)
+    if (existing.has(key)) continue
+    existing.add(key)
+
+    const card = vocabularyCard(word, bookReference(word.book, books, settings), settings.format)
+    const inserted = await logseq.Editor.appendBlockInPage(page!.uuid, card.content, { properties: card.properties })
+    for (const child of card.children || []) {
+      await insertBlockTree(inserted!.uuid, child)
+    }
+  }
+
+  return { lastModified: file.lastModified, size: file.size }
+}